@@ -0,0 +1,23 @@
+// Load modules with `env` set, in a fresh module registry. For modules that
+// read their environment once, on load. Keys set to undefined are removed,
+// and the environment is restored afterwards.
+export function loadWithEnv<T>(
+  env: Record<string, string | undefined>,
+  load: () => T
+): T {
+  const saved = { ...process.env }
+  Object.assign(process.env, env)
+  for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) delete process.env[key]
+  }
+
+  let loaded: T | undefined
+  try {
+    jest.isolateModules(() => {
+      loaded = load()
+    })
+  } finally {
+    process.env = saved
+  }
+  return loaded!
+}
@@ -0,0 +1,179 @@
+import { loadWithEnv } from '@/__tests__/helpers/env'
+
+type AudioStorageModule = typeof import('@/lib/audio-storage')
+type PendingSpeechModule = typeof import('@/lib/pending-speech')
+
+const BASE_URL = 'https://example.com'
+const AUDIO_ID = '0b7c5f8e-2d4a-4c1b-9e3f-6a8d7c5b4e21'
+const NOW = Date.parse('2026-10-19T10:00:00.000Z')
+
+function loadWith(env: Record<string, string | undefined>): {
+  audio: AudioStorageModule
+  speech: PendingSpeechModule
+} {
+  return loadWithEnv(env, () => ({
+    audio: require('@/lib/audio-storage'),
+    speech: require('@/lib/pending-speech'),
+  }))
+}
+
+function signatureOf(url: string): { expires: string; signature: string } {
+  const { searchParams } = new URL(url)
+  return {
+    expires: searchParams.get('expires') || '',
+    signature: searchParams.get('signature') || '',
+  }
+}
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(NOW)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('getAudioUrl', () => {
+  const env = { AUDIO_URL_SECRET: 'audio-secret' }
+
+  it('signs a URL that expires after ten minutes', () => {
+    const { audio } = loadWith(env)
+    const url = new URL(audio.getAudioUrl(BASE_URL, AUDIO_ID))
+
+    expect(url.origin).toBe(BASE_URL)
+    expect(url.pathname).toBe(`/api/audio/${AUDIO_ID}`)
+    expect(Number(url.searchParams.get('expires'))).toBe(NOW + 10 * 60 * 1000)
+    expect(url.searchParams.get('signature')).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('accepts its own signature until it expires', () => {
+    const { audio } = loadWith(env)
+    const { expires, signature } = signatureOf(
+      audio.getAudioUrl(BASE_URL, AUDIO_ID)
+    )
+
+    expect(audio.isValidAudioSignature(AUDIO_ID, expires, signature)).toBe(true)
+
+    jest.spyOn(Date, 'now').mockReturnValue(Number(expires) + 1)
+    expect(audio.isValidAudioSignature(AUDIO_ID, expires, signature)).toBe(
+      false
+    )
+  })
+
+  it('rejects a signature for another id or a changed expiry', () => {
+    const { audio } = loadWith(env)
+    const { expires, signature } = signatureOf(
+      audio.getAudioUrl(BASE_URL, AUDIO_ID)
+    )
+    const otherId = AUDIO_ID.replace('0b7c', '1b7c')
+
+    expect(audio.isValidAudioSignature(otherId, expires, signature)).toBe(false)
+    expect(
+      audio.isValidAudioSignature(
+        AUDIO_ID,
+        String(Number(expires) + 60 * 60 * 1000),
+        signature
+      )
+    ).toBe(false)
+  })
+
+  it('rejects a missing or malformed signature', () => {
+    const { audio } = loadWith(env)
+    const { expires } = signatureOf(audio.getAudioUrl(BASE_URL, AUDIO_ID))
+
+    expect(audio.isValidAudioSignature(AUDIO_ID, expires, null)).toBe(false)
+    expect(audio.isValidAudioSignature(AUDIO_ID, expires, 'abc')).toBe(false)
+    expect(audio.isValidAudioSignature(AUDIO_ID, null, 'abc')).toBe(false)
+    expect(audio.isValidAudioSignature(AUDIO_ID, 'soon', 'abc')).toBe(false)
+  })
+
+  it('only accepts signatures made with the same secret', () => {
+    const url = loadWith(env).audio.getAudioUrl(BASE_URL, AUDIO_ID)
+    const { expires, signature } = signatureOf(url)
+
+    expect(
+      loadWith(env).audio.isValidAudioSignature(AUDIO_ID, expires, signature)
+    ).toBe(true)
+    expect(
+      loadWith({
+        AUDIO_URL_SECRET: 'other-secret',
+      }).audio.isValidAudioSignature(AUDIO_ID, expires, signature)
+    ).toBe(false)
+  })
+})
+
+describe('isHostedAudioUrl', () => {
+  const env = { AUDIO_URL_SECRET: 'audio-secret' }
+
+  it('accepts an unexpired URL this server signed', () => {
+    const { audio } = loadWith(env)
+    expect(
+      audio.isHostedAudioUrl(BASE_URL, audio.getAudioUrl(BASE_URL, AUDIO_ID))
+    ).toBe(true)
+  })
+
+  it('rejects other hosts, unsigned URLs and expired ones', () => {
+    const { audio } = loadWith(env)
+    const url = audio.getAudioUrl(BASE_URL, AUDIO_ID)
+
+    expect(
+      audio.isHostedAudioUrl(
+        BASE_URL,
+        url.replace(BASE_URL, 'https://evil.example')
+      )
+    ).toBe(false)
+    expect(
+      audio.isHostedAudioUrl(BASE_URL, `${BASE_URL}/api/audio/${AUDIO_ID}`)
+    ).toBe(false)
+    expect(audio.isHostedAudioUrl(BASE_URL, 'not a url')).toBe(false)
+
+    jest.spyOn(Date, 'now').mockReturnValue(NOW + 10 * 60 * 1000 + 1)
+    expect(audio.isHostedAudioUrl(BASE_URL, url)).toBe(false)
+  })
+})
+
+describe('getPendingSpeechUrl', () => {
+  const env = { AUDIO_URL_SECRET: 'audio-secret' }
+
+  it('signs streamed speech until the speech expires', () => {
+    const { speech } = loadWith(env)
+    const id = speech.createPendingSpeech('Help is on the way')
+    const url = new URL(speech.getPendingSpeechUrl(BASE_URL, id))
+    const expires = url.searchParams.get('expires')
+    const signature = url.searchParams.get('signature')
+
+    expect(url.pathname).toBe(`/api/tts/stream/${id}`)
+    expect(Number(expires)).toBe(NOW + 5 * 60 * 1000)
+    expect(speech.isValidPendingSpeechSignature(id, expires, signature)).toBe(
+      true
+    )
+
+    jest.spyOn(Date, 'now').mockReturnValue(Number(expires) + 1)
+    expect(speech.isValidPendingSpeechSignature(id, expires, signature)).toBe(
+      false
+    )
+  })
+
+  it('does not accept an audio signature for speech or the reverse', () => {
+    const { audio, speech } = loadWith(env)
+    const audioUrl = signatureOf(audio.getAudioUrl(BASE_URL, AUDIO_ID))
+    const speechUrl = signatureOf(
+      speech.getPendingSpeechUrl(BASE_URL, AUDIO_ID)
+    )
+
+    expect(
+      speech.isValidPendingSpeechSignature(
+        AUDIO_ID,
+        audioUrl.expires,
+        audioUrl.signature
+      )
+    ).toBe(false)
+    expect(
+      audio.isValidAudioSignature(
+        AUDIO_ID,
+        speechUrl.expires,
+        speechUrl.signature
+      )
+    ).toBe(false)
+  })
+})
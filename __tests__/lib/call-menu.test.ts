@@ -0,0 +1,118 @@
+import { loadWithEnv } from '@/__tests__/helpers/env'
+import { getMenuSpeechInput, MenuResponse, parseMenuKey } from '@/lib/call-menu'
+
+type CallMenuModule = typeof import('@/lib/call-menu')
+
+// The call mode is read once, on load
+function loadWith(env: Record<string, string | undefined>): CallMenuModule {
+  return loadWithEnv(env, () => require('@/lib/call-menu'))
+}
+
+const BASE_URL = 'https://example.com'
+const SESSION_ID = '0b7c5f8e-2d4a-4c1b-9e3f-6a8d7c5b4e21'
+
+describe('parseMenuKey', () => {
+  it('takes the first key pressed', () => {
+    expect(parseMenuKey('2')).toBe('2')
+    expect(parseMenuKey(' 41')).toBe('4')
+  })
+
+  it('ignores keys that are not menu options', () => {
+    expect(parseMenuKey('9')).toBeNull()
+    expect(parseMenuKey('#')).toBeNull()
+    expect(parseMenuKey('')).toBeNull()
+    expect(parseMenuKey(undefined)).toBeNull()
+  })
+
+  it('prefers a key press over speech', () => {
+    expect(parseMenuKey('3', 'repeat', 'en')).toBe('3')
+  })
+
+  it('matches a whole utterance that is a menu phrase', () => {
+    expect(parseMenuKey(undefined, 'Repeat, please.', 'en')).toBe('1')
+    expect(parseMenuKey(undefined, 'Option two', 'en')).toBe('2')
+    expect(parseMenuKey(undefined, '  Medical information ', 'en')).toBe('3')
+    expect(parseMenuKey(undefined, 'Slow down!', 'en')).toBe('4')
+    expect(parseMenuKey(undefined, '1.', 'en')).toBe('1')
+  })
+
+  it('passes ordinary operator speech through', () => {
+    for (const speech of [
+      'Where are you exactly?',
+      'Can you say that one again?',
+      'Is the address correct?',
+      'Stay calm, help is on the way.',
+      'Is anyone injured? Press a key for yes.',
+    ]) {
+      expect(parseMenuKey(undefined, speech, 'en')).toBeNull()
+    }
+  })
+
+  it('matches phrases in the dispatch language', () => {
+    expect(parseMenuKey(undefined, 'Noch einmal', 'de')).toBe('1')
+    expect(parseMenuKey(undefined, 'Die Adresse?', 'de')).toBe('2')
+    expect(parseMenuKey(undefined, 'Plus lentement', 'fr')).toBe('4')
+    expect(parseMenuKey(undefined, 'Más despacio', 'es-MX')).toBe('4')
+  })
+
+  it('does not match other languages', () => {
+    expect(parseMenuKey(undefined, 'repeat', 'de')).toBeNull()
+    expect(parseMenuKey(undefined, 'noch einmal', 'en')).toBeNull()
+  })
+
+  it('only takes keys in languages without phrases', () => {
+    expect(parseMenuKey(undefined, 'one', 'ja')).toBeNull()
+    expect(parseMenuKey('1', 'one', 'ja')).toBe('1')
+  })
+})
+
+describe('getMenuSpeechInput', () => {
+  it('listens in the dispatch language with its phrases as hints', () => {
+    const input = getMenuSpeechInput('de')
+    expect(input?.language).toBe('de-DE')
+    expect(input?.hints).toEqual(expect.arrayContaining(['wiederholen']))
+  })
+
+  it('is keys only where there are no phrases', () => {
+    expect(getMenuSpeechInput('ja')).toBeNull()
+    expect(getMenuSpeechInput(null)).toBeNull()
+  })
+})
+
+describe('buildAfterMenuTwiml', () => {
+  const reply: MenuResponse = {
+    key: '2',
+    action: 'location',
+    text: 'They are at 1 Harbour Road.',
+    options: {},
+  }
+
+  it('goes back to the media stream on stream calls', () => {
+    const { buildAfterMenuTwiml } = loadWith({ CALL_MODE: 'stream' })
+    const twiml = buildAfterMenuTwiml(BASE_URL, SESSION_ID, reply)
+
+    expect(twiml).toContain('<Play>https://example.com/api/tts/stream/')
+    expect(twiml).toContain(
+      '<Stream url="wss://example.com/api/twilio/media-stream">'
+    )
+    expect(twiml).toContain(`value="${SESSION_ID}"`)
+    expect(twiml.indexOf('<Play>')).toBeLessThan(twiml.indexOf('<Connect>'))
+  })
+
+  it('reconnects the stream when there is nothing to say', () => {
+    const { buildAfterMenuTwiml } = loadWith({ CALL_MODE: 'stream' })
+    const twiml = buildAfterMenuTwiml(BASE_URL, SESSION_ID, null)
+
+    expect(twiml).not.toContain('<Play>')
+    expect(twiml).toContain('<Connect>')
+  })
+
+  it('records the next reply on turn-based calls', () => {
+    const { buildAfterMenuTwiml } = loadWith({ CALL_MODE: undefined })
+    const twiml = buildAfterMenuTwiml(BASE_URL, SESSION_ID, reply)
+
+    expect(twiml).toContain('<Play>')
+    expect(twiml).toContain('<Record')
+    expect(twiml).not.toContain('<Connect>')
+  })
+})
@@ -0,0 +1,72 @@
+import { loadWithEnv } from '@/__tests__/helpers/env'
+
+type EmergencyMessageModule = typeof import('@/lib/emergency-message')
+
+// The stub translator tags each translated piece with its language pair
+function loadWith(env: Record<string, string | undefined>) {
+  return loadWithEnv(
+    env,
+    (): EmergencyMessageModule => require('@/lib/emergency-message')
+  )
+}
+
+describe('translateSpokenMessage', () => {
+  const env = { TRANSLATION_PROVIDER: 'stub' }
+
+  it("brings the person's words through English for another language", async () => {
+    const { frameTypedMessage, translateSpokenMessage } = loadWith(env)
+    const translation = await translateSpokenMessage(
+      'Hilfe',
+      frameTypedMessage,
+      'de',
+      'es'
+    )
+    expect(translation).toEqual({
+      text: '[en→es] The person at risk said: [de→en] Hilfe',
+      language: 'es',
+    })
+  })
+
+  it("keeps the person's own words when the operator speaks their language", async () => {
+    const { frameTypedMessage, translateSpokenMessage } = loadWith(env)
+    const translation = await translateSpokenMessage(
+      'Mi amigo no respira',
+      frameTypedMessage,
+      'es',
+      'es'
+    )
+    expect(translation).toEqual({
+      text: '[en→es] The person at risk said: Mi amigo no respira',
+      language: 'es',
+    })
+  })
+
+  it('translates each piece of the frame around the words', async () => {
+    const { translateSpokenMessage } = loadWith(env)
+    const translation = await translateSpokenMessage(
+      'incendio',
+      (words) => `They said: ${words}. Please hurry.`,
+      'es',
+      'es'
+    )
+    expect(translation?.text).toBe(
+      '[en→es] They said: incendio. [en→es] Please hurry.'
+    )
+  })
+
+  it('sends English to an English line as it is', async () => {
+    const { frameTypedMessage, translateSpokenMessage } = loadWith(env)
+    expect(
+      await translateSpokenMessage('Help', frameTypedMessage, 'en', 'en')
+    ).toBeNull()
+  })
+
+  it('leaves everything as typed without a translator', async () => {
+    const { frameTypedMessage, translateSpokenMessage } = loadWith({
+      TRANSLATION_PROVIDER: undefined,
+    })
+    expect(
+      await translateSpokenMessage('Ayuda', frameTypedMessage, 'es', 'es')
+    ).toBeNull()
+  })
+})
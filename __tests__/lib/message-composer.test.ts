@@ -0,0 +1,182 @@
+import {
+  composeEmergencyMessage,
+  estimateSpokenSeconds,
+  hasTemplates,
+} from '@/lib/message-composer'
+import { EmergencyData } from '@/lib/types'
+
+const LONG_DESCRIPTION = Array.from(
+  { length: 80 },
+  (_, i) => `word${String.fromCharCode(97 + (i % 26))}`
+).join(' ')
+
+function emergency(data: Partial<EmergencyData>): EmergencyData {
+  return {
+    serviceNeeded: 'coast-guard',
+    description: 'My friend fell off the boat',
+    location: { latitude: 50.12347, longitude: -1.98767 },
+    manualAddress: null,
+    browserLanguage: 'en',
+    timestamp: '2026-10-19T10:00:00.000Z',
+    ...data,
+  }
+}
+
+function sectionIds(data: EmergencyData, targetSeconds?: number): string[] {
+  return composeEmergencyMessage(data, { targetSeconds }).sections.map(
+    (section) => section.id
+  )
+}
+
+describe('estimateSpokenSeconds', () => {
+  it('reads 150 words a minute', () => {
+    expect(estimateSpokenSeconds('one two three four five')).toBe(2)
+  })
+
+  it('counts each digit as half a word more', () => {
+    expect(estimateSpokenSeconds('call 1234')).toBe(
+      estimateSpokenSeconds('call one two three')
+    )
+  })
+})
+
+describe('composeEmergencyMessage', () => {
+  it('speaks every section in order when within budget', () => {
+    const message = composeEmergencyMessage(
+      emergency({ triage: { 'in-water': 'yes' } })
+    )
+
+    expect(message.sections.map((section) => section.id)).toEqual([
+      'intro',
+      'nature',
+      'details',
+      'location',
+      'danger',
+      'callback',
+    ])
+    expect(message.dropped).toEqual([])
+    expect(message.text).toContain('They need the coast guard.')
+    expect(message.text).toContain('They said: My friend fell off the boat.')
+    expect(message.text).toContain(
+      'Their GPS position is latitude 50.1235, longitude -1.9877.'
+    )
+    expect(message.text).toContain('Someone is in the water.')
+    expect(message.estimatedSeconds).toBeLessThanOrEqual(message.targetSeconds)
+  })
+
+  it('uses the first wording whose placeholders all have values', () => {
+    const withAddress = composeEmergencyMessage(
+      emergency({ manualAddress: '  1 Harbour Road  ' })
+    )
+    const unknown = composeEmergencyMessage(emergency({ location: null }))
+
+    expect(withAddress.text).toContain('They are at 1 Harbour Road.')
+    expect(withAddress.text).not.toContain('GPS')
+    expect(unknown.text).toContain('Their location is unknown.')
+  })
+
+  it('leaves out sections with nothing to say', () => {
+    expect(sectionIds(emergency({ triage: null }))).not.toContain('danger')
+  })
+
+  it('uses the wording of a service where it has its own', () => {
+    const police = composeEmergencyMessage(
+      emergency({ serviceNeeded: 'police' })
+    )
+    const ambulance = composeEmergencyMessage(
+      emergency({
+        serviceNeeded: 'ambulance',
+        triage: { breathing: 'no' },
+      })
+    )
+
+    expect(police.text).toContain(
+      'They need the police. Speaking may not be safe for them.'
+    )
+    expect(ambulance.text).toContain(
+      'Medical details: The patient is not breathing.'
+    )
+  })
+
+  it('uses the templates of the requested locale', () => {
+    const message = composeEmergencyMessage(
+      emergency({ serviceNeeded: 'fire' }),
+      { locale: 'de' }
+    )
+
+    expect(message.locale).toBe('de')
+    expect(message.text).toContain('Benötigt wird die Feuerwehr.')
+    expect(message.text).toContain(
+      'GPS-Position: Breitengrad 50.1235, Längengrad -1.9877.'
+    )
+  })
+
+  it('falls back to English for a locale without templates', () => {
+    expect(hasTemplates('ja')).toBe(false)
+    const message = composeEmergencyMessage(emergency({}), { locale: 'ja' })
+    expect(message.locale).toBe('en')
+    expect(message.text).toContain('They need the coast guard.')
+  })
+
+  it('takes placeholder values as given', () => {
+    const message = composeEmergencyMessage(emergency({}), {
+      locale: 'fr',
+      values: { service: 'les garde-côtes' },
+    })
+    expect(message.text).toContain('Service demandé : les garde-côtes.')
+  })
+
+  it('leaves out the callback first when over budget', () => {
+    const full = composeEmergencyMessage(emergency({}))
+    const message = composeEmergencyMessage(emergency({}), {
+      targetSeconds: full.estimatedSeconds - 1,
+    })
+
+    expect(message.dropped).toEqual(['callback'])
+    expect(message.estimatedSeconds).toBeLessThanOrEqual(message.targetSeconds)
+  })
+
+  it('shortens a long description to fit the budget', () => {
+    const message = composeEmergencyMessage(
+      emergency({ description: LONG_DESCRIPTION })
+    )
+    const details = message.sections.find((section) => section.id === 'details')
+
+    expect(details?.shortened).toBe(true)
+    expect(details?.text.endsWith('…')).toBe(true)
+    expect(message.dropped).toContain('callback')
+    expect(message.estimatedSeconds).toBeLessThanOrEqual(30)
+    // As many words as fit, not just the minimum
+    expect(
+      estimateSpokenSeconds(message.text) + estimateSpokenSeconds('one more')
+    ).toBeGreaterThan(30)
+  })
+
+  it('never shortens a description below its minimum words', () => {
+    const message = composeEmergencyMessage(
+      emergency({ description: LONG_DESCRIPTION }),
+      { targetSeconds: 1 }
+    )
+    const details = message.sections.find((section) => section.id === 'details')
+
+    // "They said:" and 10 words of the description
+    expect(details?.text.split(/\s+/)).toHaveLength(12)
+  })
+
+  it('always speaks the priority 0 sections', () => {
+    const ids = sectionIds(
+      emergency({
+        description: LONG_DESCRIPTION,
+        triage: { 'in-water': 'yes' },
+      }),
+      1
+    )
+    expect(ids).toEqual(expect.arrayContaining(['intro', 'nature', 'location']))
+    expect(ids).not.toContain('danger')
+  })
+
+  it('gives the same output for the same input', () => {
+    const data = emergency({ description: LONG_DESCRIPTION })
+    expect(composeEmergencyMessage(data)).toEqual(composeEmergencyMessage(data))
+  })
+})
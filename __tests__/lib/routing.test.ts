@@ -0,0 +1,189 @@
+import {
+  countryFromAddress,
+  countryFromCoordinates,
+  resolveEmergencyNumber,
+  toPublicRouting,
+} from '@/lib/routing'
+import { EmergencyData } from '@/lib/types'
+
+function emergency(data: Partial<EmergencyData>): EmergencyData {
+  return {
+    serviceNeeded: 'police',
+    description: '',
+    location: null,
+    manualAddress: null,
+    browserLanguage: 'en',
+    timestamp: '2026-10-19T10:00:00.000Z',
+    ...data,
+  }
+}
+
+describe('countryFromCoordinates', () => {
+  it.each([
+    ['Toronto', 43.65, -79.38, 'CA'],
+    ['Montreal', 45.5, -73.56, 'CA'],
+    ['Vancouver', 49.28, -123.12, 'CA'],
+    ['Buffalo', 42.89, -78.88, 'US'],
+    ['Detroit', 42.33, -83.05, 'US'],
+    ['Seattle', 47.6, -122.33, 'US'],
+    ['Houston', 29.76, -95.37, 'US'],
+    ['El Paso', 31.76, -106.49, 'US'],
+    ['Ciudad Juárez', 31.69, -106.42, 'MX'],
+    ['Tijuana', 32.51, -117.04, 'MX'],
+    ['Strasbourg', 48.58, 7.75, 'FR'],
+    ['Lille', 50.63, 3.06, 'FR'],
+    ['Toulouse', 43.6, 1.44, 'FR'],
+    ['Nice', 43.7, 7.26, 'FR'],
+    ['Kehl', 48.57, 7.82, 'DE'],
+    ['Munich', 48.14, 11.58, 'DE'],
+    ['Aachen', 50.78, 6.08, 'DE'],
+    ['Salzburg', 47.8, 13.04, 'AT'],
+    ['Basel', 47.56, 7.59, 'CH'],
+    ['Maastricht', 50.85, 5.69, 'NL'],
+    ['Turin', 45.07, 7.69, 'IT'],
+    ['Belfast', 54.6, -5.93, 'GB'],
+    ['Dublin', 53.35, -6.26, 'IE'],
+  ])('places %s', (_, latitude, longitude, country) => {
+    expect(countryFromCoordinates(latitude, longitude)).toBe(country)
+  })
+
+  it('returns null in the open ocean', () => {
+    expect(countryFromCoordinates(0, -30)).toBeNull()
+  })
+})
+
+describe('countryFromAddress', () => {
+  it('matches a trailing country name or alias', () => {
+    expect(countryFromAddress('10 Rue de Rivoli, Paris, France')).toBe('FR')
+    expect(countryFromAddress('Bahnhofstrasse 1, Zürich, Schweiz')).toBe('CH')
+  })
+
+  it('ignores country names early in the address', () => {
+    expect(countryFromAddress('France Street, Springfield')).toBeNull()
+  })
+})
+
+describe('resolveEmergencyNumber', () => {
+  it('prefers an explicit country code over coordinates', () => {
+    const routing = resolveEmergencyNumber(
+      emergency({
+        countryCode: 'de',
+        location: { latitude: 43.65, longitude: -79.38 },
+      })
+    )
+    expect(routing).toMatchObject({
+      number: '110',
+      countryCode: 'DE',
+      language: 'de',
+      line: 'police',
+      source: 'country',
+    })
+  })
+
+  it('places coordinates when there is no country code', () => {
+    const routing = resolveEmergencyNumber(
+      emergency({ location: { latitude: 48.58, longitude: 7.75 } })
+    )
+    expect(routing).toMatchObject({
+      number: '17',
+      countryCode: 'FR',
+      source: 'coordinates',
+    })
+  })
+
+  it('falls back to the general line when a country has no service line', () => {
+    const routing = resolveEmergencyNumber(emergency({ countryCode: 'GB' }))
+    expect(routing).toMatchObject({ number: '999', line: 'general' })
+  })
+
+  it("dials a service's own number where it has one", () => {
+    const routing = resolveEmergencyNumber(
+      emergency({ serviceNeeded: 'mental-health', countryCode: 'US' })
+    )
+    expect(routing).toMatchObject({
+      number: '988',
+      service: 'mental-health',
+    })
+  })
+
+  it('escalates a hotline to the emergency line on immediate danger', () => {
+    const attacker = resolveEmergencyNumber(
+      emergency({
+        serviceNeeded: 'domestic-violence',
+        countryCode: 'US',
+        triage: { attacker: 'yes' },
+      })
+    )
+    expect(attacker).toMatchObject({
+      number: '911',
+      line: 'general',
+      service: null,
+    })
+
+    const weapon = resolveEmergencyNumber(
+      emergency({
+        serviceNeeded: 'domestic-violence',
+        countryCode: 'DE',
+        triage: { attacker: 'no', weapon: 'unsure' },
+      })
+    )
+    expect(weapon).toMatchObject({ number: '110', line: 'police' })
+
+    const danger = resolveEmergencyNumber(
+      emergency({
+        serviceNeeded: 'mental-health',
+        countryCode: 'GB',
+        triage: { 'immediate-danger': 'yes' },
+      })
+    )
+    expect(danger).toMatchObject({ number: '999', service: null })
+  })
+
+  it('keeps the hotline when the answers show no immediate danger', () => {
+    const routing = resolveEmergencyNumber(
+      emergency({
+        serviceNeeded: 'domestic-violence',
+        countryCode: 'US',
+        triage: { attacker: 'no', weapon: 'no' },
+      })
+    )
+    expect(routing).toMatchObject({
+      number: '+18007997233',
+      service: 'domestic-violence',
+    })
+  })
+
+  it('uses the default line when nothing places the person', () => {
+    const routing = resolveEmergencyNumber(emergency({}))
+    expect(routing).toMatchObject({
+      number: '112',
+      countryCode: null,
+      source: 'default',
+    })
+  })
+
+  it('only accepts overrides from the directory', () => {
+    expect(
+      resolveEmergencyNumber(
+        emergency({ countryCode: 'GB', dialOverride: '112' })
+      )
+    ).toMatchObject({ number: '112', source: 'override' })
+    expect(
+      resolveEmergencyNumber(
+        emergency({ countryCode: 'GB', dialOverride: '+15551234567' })
+      )
+    ).toMatchObject({ number: '999', source: 'country' })
+  })
+})
+
+describe('toPublicRouting', () => {
+  it('reports test mode without the number actually dialled', () => {
+    const routing = resolveEmergencyNumber(emergency({ countryCode: 'GB' }))
+    const redirected = { ...routing, dialNumber: '+15551234567' }
+
+    expect(toPublicRouting(routing)).not.toHaveProperty('dialNumber')
+    expect(toPublicRouting(routing).testMode).toBe(false)
+    expect(toPublicRouting(redirected)).not.toHaveProperty('dialNumber')
+    expect(toPublicRouting(redirected).testMode).toBe(true)
+  })
+})
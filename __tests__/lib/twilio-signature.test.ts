@@ -0,0 +1,175 @@
+import { NextRequest } from 'next/server'
+import { loadWithEnv } from '@/__tests__/helpers/env'
+
+type SignatureModule = typeof import('@/lib/twilio-signature')
+
+const WEBHOOK_URL = 'https://example.com/api/twilio/status-callback'
+const PARAMS = { CallSid: 'CA123', CallStatus: 'ringing', SequenceNumber: '1' }
+
+function loadWith(env: Record<string, string | undefined>): SignatureModule {
+  return loadWithEnv(env, () => require('@/lib/twilio-signature'))
+}
+
+function webhookRequest(
+  params: Record<string, string>,
+  signature: string | null
+): NextRequest {
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+  }
+  if (signature) headers['x-twilio-signature'] = signature
+  return new NextRequest(WEBHOOK_URL, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams(params).toString(),
+  })
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {})
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('computeTwilioSignature', () => {
+  it('signs the URL followed by the sorted parameters', () => {
+    const { computeTwilioSignature } = loadWith({})
+    expect(computeTwilioSignature('secret-token', WEBHOOK_URL, PARAMS)).toBe(
+      'lqIDBFSZSrWr4klvr6bF1xE7jvU='
+    )
+  })
+
+  it('does not depend on parameter order', () => {
+    const { computeTwilioSignature } = loadWith({})
+    const reordered = {
+      SequenceNumber: '1',
+      CallStatus: 'ringing',
+      CallSid: 'CA123',
+    }
+    expect(computeTwilioSignature('secret-token', WEBHOOK_URL, reordered)).toBe(
+      computeTwilioSignature('secret-token', WEBHOOK_URL, PARAMS)
+    )
+  })
+})
+
+describe('signTwilioRequest', () => {
+  it('refuses to sign outside test mode', () => {
+    const { canSignTwilioRequests, signTwilioRequest } = loadWith({
+      TWILIO_SIGNATURE_MODE: undefined,
+    })
+    expect(canSignTwilioRequests()).toBe(false)
+    expect(() => signTwilioRequest(WEBHOOK_URL, PARAMS)).toThrow('test mode')
+  })
+
+  it('refuses to sign in production even in test mode', () => {
+    const { signTwilioRequest } = loadWith({
+      TWILIO_SIGNATURE_MODE: 'test',
+      NODE_ENV: 'production',
+    })
+    expect(() => signTwilioRequest(WEBHOOK_URL, PARAMS)).toThrow('test mode')
+  })
+
+  it('signs with the test token in test mode', () => {
+    const { computeTwilioSignature, signTwilioRequest } = loadWith({
+      TWILIO_SIGNATURE_MODE: 'test',
+      TWILIO_TEST_AUTH_TOKEN: 'local-token',
+    })
+    expect(signTwilioRequest(WEBHOOK_URL, PARAMS)).toBe(
+      computeTwilioSignature('local-token', WEBHOOK_URL, PARAMS)
+    )
+  })
+})
+
+describe('isValidTwilioSignature', () => {
+  const env = { TWILIO_SIGNATURE_MODE: undefined, TWILIO_AUTH_TOKEN: 'real' }
+
+  it('accepts a signature made with the auth token', () => {
+    const { computeTwilioSignature, isValidTwilioSignature } = loadWith(env)
+    const signature = computeTwilioSignature('real', WEBHOOK_URL, PARAMS)
+    expect(isValidTwilioSignature(WEBHOOK_URL, PARAMS, signature)).toBe(true)
+  })
+
+  it('rejects a missing signature', () => {
+    const { isValidTwilioSignature } = loadWith(env)
+    expect(isValidTwilioSignature(WEBHOOK_URL, PARAMS, null)).toBe(false)
+    expect(isValidTwilioSignature(WEBHOOK_URL, PARAMS, '')).toBe(false)
+  })
+
+  it('rejects a signature made with another token', () => {
+    const { computeTwilioSignature, isValidTwilioSignature } = loadWith(env)
+    const signature = computeTwilioSignature('other', WEBHOOK_URL, PARAMS)
+    expect(isValidTwilioSignature(WEBHOOK_URL, PARAMS, signature)).toBe(false)
+  })
+
+  it('rejects changed parameters or a different URL', () => {
+    const { computeTwilioSignature, isValidTwilioSignature } = loadWith(env)
+    const signature = computeTwilioSignature('real', WEBHOOK_URL, PARAMS)
+    expect(
+      isValidTwilioSignature(
+        WEBHOOK_URL,
+        { ...PARAMS, CallStatus: 'completed' },
+        signature
+      )
+    ).toBe(false)
+    expect(
+      isValidTwilioSignature(`${WEBHOOK_URL}?x=1`, PARAMS, signature)
+    ).toBe(false)
+  })
+
+  it('rejects everything when no auth token is configured', () => {
+    const { computeTwilioSignature, isValidTwilioSignature } = loadWith({
+      TWILIO_SIGNATURE_MODE: undefined,
+      TWILIO_AUTH_TOKEN: undefined,
+    })
+    const signature = computeTwilioSignature('', WEBHOOK_URL, PARAMS)
+    expect(isValidTwilioSignature(WEBHOOK_URL, PARAMS, signature)).toBe(false)
+  })
+
+  it('checks against the test token in test mode', () => {
+    const { isValidTwilioSignature, signTwilioRequest } = loadWith({
+      TWILIO_SIGNATURE_MODE: 'test',
+      TWILIO_AUTH_TOKEN: 'real',
+    })
+    expect(
+      isValidTwilioSignature(
+        WEBHOOK_URL,
+        PARAMS,
+        signTwilioRequest(WEBHOOK_URL, PARAMS)
+      )
+    ).toBe(true)
+  })
+})
+
+describe('validateTwilioWebhook', () => {
+  const env = {
+    TWILIO_SIGNATURE_MODE: 'test',
+    PUBLIC_BASE_URL: 'https://example.com',
+  }
+
+  it('hands back the form parameters of a signed request', async () => {
+    const { signTwilioRequest, validateTwilioWebhook } = loadWith(env)
+    const result = await validateTwilioWebhook(
+      webhookRequest(PARAMS, signTwilioRequest(WEBHOOK_URL, PARAMS))
+    )
+    expect(result).toEqual({ valid: true, params: PARAMS })
+  })
+
+  it('answers 403 for an unsigned or tampered request', async () => {
+    const { signTwilioRequest, validateTwilioWebhook } = loadWith(env)
+    const unsigned = await validateTwilioWebhook(webhookRequest(PARAMS, null))
+    const tampered = await validateTwilioWebhook(
+      webhookRequest(
+        { ...PARAMS, CallStatus: 'completed' },
+        signTwilioRequest(WEBHOOK_URL, PARAMS)
+      )
+    )
+
+    for (const result of [unsigned, tampered]) {
+      expect(result.valid).toBe(false)
+      if (!result.valid) expect(result.response.status).toBe(403)
+    }
+  })
+})
@@ -0,0 +1,51 @@
+import { loadWithEnv } from '@/__tests__/helpers/env'
+
+type UtilsModule = typeof import('@/lib/utils')
+
+function loadWith(env: Record<string, string | undefined>): UtilsModule {
+  const utils: UtilsModule = loadWithEnv(env, () => require('@/lib/utils'))
+  // Started on load; nothing here needs it running
+  utils.stopRateLimitCleanup()
+  return utils
+}
+
+function forwardedFor(value: string): Headers {
+  return new Headers({ 'x-forwarded-for': value })
+}
+
+describe('getClientIp', () => {
+  it('takes the address added by the proxy, not one sent by the client', () => {
+    const { getClientIp } = loadWith({ TRUSTED_PROXY_COUNT: undefined })
+    expect(getClientIp(forwardedFor('203.0.113.7'))).toBe('203.0.113.7')
+    expect(getClientIp(forwardedFor('1.2.3.4, 203.0.113.7'))).toBe(
+      '203.0.113.7'
+    )
+  })
+
+  it('skips the entries added by each trusted proxy', () => {
+    const { getClientIp } = loadWith({ TRUSTED_PROXY_COUNT: '2' })
+    expect(
+      getClientIp(forwardedFor('1.2.3.4, 203.0.113.7, 198.51.100.2'))
+    ).toBe('203.0.113.7')
+  })
+
+  it('ignores X-Real-IP, which clients can also set', () => {
+    const { getClientIp } = loadWith({ TRUSTED_PROXY_COUNT: undefined })
+    expect(getClientIp(new Headers({ 'x-real-ip': '1.2.3.4' }))).toBe('unknown')
+  })
+
+  it('trusts no header without a proxy', () => {
+    const { getClientIp } = loadWith({ TRUSTED_PROXY_COUNT: '0' })
+    expect(getClientIp(forwardedFor('1.2.3.4'))).toBe('unknown')
+  })
+})
+
+describe('checkRateLimit', () => {
+  it('allows requests up to the limit in a window', () => {
+    const { checkRateLimit } = loadWith({})
+    const results = [1, 2, 3].map(() => checkRateLimit('test:a', 2, 60000))
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, false])
+    expect(checkRateLimit('test:b', 2, 60000).allowed).toBe(true)
+  })
+})
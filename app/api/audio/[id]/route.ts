@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidAudioSignature, readAudioFile } from '@/lib/audio-storage'
+
+export const dynamic = 'force-dynamic'
+
+// Serves a session's hosted audio to Twilio <Play>. The signature is the
+// authentication: only URLs signed by getAudioUrl work, and only until they
+// expire.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { searchParams } = request.nextUrl
+  if (
+    !isValidAudioSignature(
+      params.id,
+      searchParams.get('expires'),
+      searchParams.get('signature')
+    )
+  ) {
+    return NextResponse.json(
+      { error: 'Invalid or expired audio URL' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const file = await readAudioFile(params.id)
+    if (!file) {
+      return NextResponse.json({ error: 'Audio not found' }, { status: 404 })
+    }
+
+    return new NextResponse(file.audio, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.audio.length),
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[Audio API] Error:', error)
+    return NextResponse.json({ error: 'Failed to read audio' }, { status: 500 })
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTelephonyProvider, TelephonyError } from '@/lib/telephony'
+import {
+  listMockCalls,
+  MockOperatorAction,
+  MockPlay,
+  sendOperatorReply,
+  simulateOperatorAction,
+} from '@/lib/telephony/mock'
+import {
+  getSessionByCallSid,
+  listSessionMessages,
+  Session,
+} from '@/lib/sessions'
+import { getPendingSpeech } from '@/lib/pending-speech'
+import { listPreparedQuickReplies } from '@/lib/quick-reply-audio'
+import { buildEmergencyMessageParts } from '@/lib/emergency-message'
+import { getSpeechCacheStats } from '@/lib/speech'
+
+export const dynamic = 'force-dynamic'
+
+const OPERATOR_ACTIONS: MockOperatorAction[] = [
+  'answer',
+  'no-answer',
+  'busy',
+  'hangup',
+]
+
+// Backs the /dev/operator console. Only available outside production and
+// with the mock telephony provider, which holds the calls it acts on.
+function unavailableResponse(): NextResponse | null {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  if (getTelephonyProvider().name !== 'mock') {
+    return NextResponse.json(
+      { error: 'The operator console needs TELEPHONY_PROVIDER=mock' },
+      { status: 409 }
+    )
+  }
+  return null
+}
+
+// Match each clip the call played to the text it was made from: the
+// emergency message's intro or details, a prepared quick reply, or a pending
+// streamed message
+function describePlay(play: MockPlay, session: Session | null) {
+  const { pathname: path, search } = new URL(play.url)
+  const reply =
+    session &&
+    listPreparedQuickReplies(session.id).find(
+      ({ audioId }) => path === `/api/audio/${audioId}`
+    )
+  let text: string | null = null
+
+  if (session && play.url === session.introAudioUrl) {
+    text = buildEmergencyMessageParts(session.emergencyData).intro
+  } else if (session && play.url === session.audioUrl) {
+    text = session.introAudioUrl
+      ? buildEmergencyMessageParts(session.emergencyData).details
+      : session.emergencyMessage
+  } else if (reply) {
+    text = reply.spokenText
+  } else if (path.startsWith('/api/tts/stream/')) {
+    text = getPendingSpeech(path.split('/').pop() || '')?.text || null
+  }
+
+  // Served from this app, so the console can play it from its own origin
+  return { audioUrl: `${path}${search}`, text, at: play.at }
+}
+
+export async function GET() {
+  const unavailable = unavailableResponse()
+  if (unavailable) return unavailable
+
+  try {
+    const calls = await Promise.all(
+      listMockCalls().map(async (call) => {
+        const session = await getSessionByCallSid(call.sid)
+        const messages = session ? await listSessionMessages(session.id) : []
+
+        return {
+          callSid: call.sid,
+          to: call.to,
+          twilioStatus: call.twilioStatus,
+          createdAt: call.createdAt,
+          sessionId: session?.id || null,
+          heard: call.plays.map((play) => describePlay(play, session)),
+          replies: messages
+            .filter((message) => message.direction === 'inbound')
+            .map((message) => ({
+              id: message.id,
+              text: message.text,
+              at: message.timestamp,
+            })),
+          texts: messages
+            .filter(
+              (message) =>
+                message.channel === 'sms' &&
+                message.deliveryStatus === 'delivered'
+            )
+            .map((message) => ({
+              id: message.id,
+              text: message.text,
+              at: message.timestamp,
+            })),
+        }
+      })
+    )
+
+    return NextResponse.json({
+      success: true,
+      calls,
+      speechCache: getSpeechCacheStats(),
+    })
+  } catch (error) {
+    console.error('[Operator Console API] Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const unavailable = unavailableResponse()
+  if (unavailable) return unavailable
+
+  try {
+    const { callSid, action, text } = await request.json()
+
+    if (!callSid || typeof callSid !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameter: callSid' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'reply') {
+      if (!text || typeof text !== 'string' || !text.trim()) {
+        return NextResponse.json(
+          { error: 'Missing required parameter: text' },
+          { status: 400 }
+        )
+      }
+      await sendOperatorReply(callSid, text.trim())
+    } else if (OPERATOR_ACTIONS.includes(action)) {
+      await simulateOperatorAction(callSid, action)
+    } else {
+      return NextResponse.json(
+        {
+          error: `action must be one of: reply, ${OPERATOR_ACTIONS.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Operator Console API] Error:', error)
+    if (error instanceof TelephonyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  listDialOptions,
+  resolveEmergencyNumber,
+  toPublicRouting,
+} from '@/lib/routing'
+import { sanitizeTriage } from '@/lib/triage'
+
+function parseTriage(serviceNeeded: string, value: string | null) {
+  if (!value) return null
+  try {
+    return sanitizeTriage(serviceNeeded, JSON.parse(value))
+  } catch {
+    return null
+  }
+}
+
+// Preview which emergency line a session would dial, for the form
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const latitude = parseFloat(searchParams.get('lat') || '')
+    const longitude = parseFloat(searchParams.get('lng') || '')
+
+    const serviceNeeded = searchParams.get('service') || ''
+
+    const routing = resolveEmergencyNumber({
+      serviceNeeded,
+      description: '',
+      location:
+        isNaN(latitude) || isNaN(longitude) ? null : { latitude, longitude },
+      manualAddress: searchParams.get('address'),
+      countryCode: searchParams.get('country'),
+      triage: parseTriage(serviceNeeded, searchParams.get('triage')),
+      dialOverride: searchParams.get('override'),
+      browserLanguage: '',
+      timestamp: new Date().toISOString(),
+    })
+
+    return NextResponse.json({
+      success: true,
+      routing: toPublicRouting(routing),
+      options: listDialOptions(),
+    })
+  } catch (error) {
+    console.error('[Routing API] Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
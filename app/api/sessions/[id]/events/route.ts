@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/sessions'
+import { subscribeToSession, LoggedSessionEvent } from '@/lib/session-events'
+import { readSessionSnapshot } from '@/lib/session-replay'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_INTERVAL_MS = 15000
+const RECONNECT_DELAY_MS = 2000
+
+// Server-Sent Events stream of status changes, operator transcripts and
+// message delivery updates for one session. Reconnecting clients resume from
+// the Last-Event-ID header (or ?lastEventId= for manual reconnects), or get a
+// snapshot from storage when this process can't resume from that id.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getSession(params.id)
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  const lastEventId =
+    request.headers.get('last-event-id') ||
+    request.nextUrl.searchParams.get('lastEventId')
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+      const unsubscribe = await subscribeToSession(
+        session.id,
+        lastEventId,
+        (event: LoggedSessionEvent) => {
+          send(
+            `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(
+              event.data
+            )}\n\n`
+          )
+        },
+        () => readSessionSnapshot(session.id)
+      )
+      if (request.signal.aborted) {
+        unsubscribe()
+        return
+      }
+
+      // Keep proxies (and ngrok) from closing an idle connection
+      const heartbeat = setInterval(
+        () => send(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS
+      )
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+
+      request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
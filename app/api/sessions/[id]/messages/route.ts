@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  addSessionMessage,
+  getSession,
+  updateSession,
+  updateSessionMessage,
+} from '@/lib/sessions'
+import { checkRateLimit, getClientIp, rateLimitHeaders } from '@/lib/utils'
+import { MAX_TTS_CHARACTERS, SynthesisOptions } from '@/lib/speech'
+import { createPendingSpeech, getPendingSpeechUrl } from '@/lib/pending-speech'
+import { buildPlayAndRecordTwiml } from '@/lib/twilio'
+import { getTelephonyProvider } from '@/lib/telephony'
+import { getMediaStream } from '@/lib/media-stream/registry'
+import { getBaseUrl } from '@/lib/url'
+import { publishSessionEvent } from '@/lib/session-events'
+import {
+  buildMovedMessage,
+  frameTypedMessage,
+  translateSpokenMessage,
+} from '@/lib/emergency-message'
+import { languageOf, translateForDelivery } from '@/lib/translation'
+import { getQuickReplyText, isQuickReplyId } from '@/lib/quick-replies'
+import {
+  getPreparedQuickReply,
+  PreparedQuickReply,
+  readQuickReplySamples,
+} from '@/lib/quick-reply-audio'
+import { getAudioUrl } from '@/lib/audio-storage'
+import { sessionSpeechOptions } from '@/lib/call-menu'
+import { distanceInMeters, isCoordinates } from '@/lib/geo'
+
+// Typed messages are synthesized afresh, so they are limited like /api/tts,
+// per session and IP address, but with room for a live conversation: two a
+// minute on average. Location updates and quick replies don't count.
+const TYPED_MESSAGE_RATE_LIMIT = 120
+const TYPED_MESSAGE_RATE_WINDOW_MS = 60 * 60 * 1000
+
+// Prepared quick replies play their ready-made audio; everything else is
+// synthesized while it plays
+async function deliverMessage(
+  request: NextRequest,
+  callSid: string,
+  text: string,
+  reply: PreparedQuickReply | null,
+  options: SynthesisOptions
+): Promise<'stream' | 'turn'> {
+  const stream = getMediaStream(callSid)
+  if (stream) {
+    const samples = reply && (await readQuickReplySamples(reply))
+    console.log('[Messages API] Speaking over media stream:', callSid)
+    await (samples ? stream.play(samples) : stream.speak(text, options))
+    return 'stream'
+  }
+
+  console.log('[Messages API] Playing message via TwiML update:', callSid)
+  const baseUrl = getBaseUrl(request)
+  const audioUrl = reply
+    ? getAudioUrl(baseUrl, reply.audioId)
+    : getPendingSpeechUrl(baseUrl, createPendingSpeech(text, options))
+
+  await getTelephonyProvider().updateCall(
+    callSid,
+    buildPlayAndRecordTwiml(
+      audioUrl,
+      `${baseUrl}/api/twilio/recording-callback`,
+      30
+    )
+  )
+  return 'turn'
+}
+
+// Speak a message from the person to the operator, translated into the
+// dispatcher's language when it differs. Takes typed `text`, a
+// `quickReplyId` or a new `location` the person has moved to. Uses the live media stream when the call has one,
+// otherwise falls back to replacing the call's TwiML with <Play>/<Record>.
+// Either way audio is streamed as it is synthesized.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession(params.id)
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (!session.callSid) {
+      return NextResponse.json(
+        { error: 'Call has not started yet' },
+        { status: 409 }
+      )
+    }
+
+    const language = languageOf(session.emergencyData.browserLanguage)
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+    const { text: typedText, quickReplyId, location, clientId } = body
+    if (quickReplyId !== undefined && !isQuickReplyId(quickReplyId)) {
+      return NextResponse.json(
+        { error: 'Unknown quickReplyId' },
+        { status: 400 }
+      )
+    }
+    if (location !== undefined && !isCoordinates(location)) {
+      return NextResponse.json({ error: 'Invalid location' }, { status: 400 })
+    }
+
+    // Location updates are sentences built here, measured from the last
+    // position the operator was given
+    const lastLocation = session.movedTo || session.emergencyData.location
+    const movedMessage = location
+      ? buildMovedMessage(
+          location,
+          lastLocation ? distanceInMeters(lastLocation, location) : null
+        )
+      : null
+
+    // Quick replies show in the person's language but are spoken from
+    // their English phrase, like any typed message
+    const text =
+      movedMessage ||
+      (quickReplyId ? getQuickReplyText(quickReplyId, language) : typedText)
+    const words = quickReplyId ? getQuickReplyText(quickReplyId, 'en') : text
+    const textLanguage = movedMessage ? 'en' : language
+
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: text' },
+        { status: 400 }
+      )
+    }
+
+    if (frameTypedMessage(text).length > MAX_TTS_CHARACTERS) {
+      return NextResponse.json(
+        { error: `Text exceeds ${MAX_TTS_CHARACTERS} characters` },
+        { status: 400 }
+      )
+    }
+
+    let headers: Record<string, string> | undefined
+    if (!movedMessage && !quickReplyId) {
+      const clientIp = getClientIp(request.headers)
+      const rateLimit = checkRateLimit(
+        `messages:${session.id}:${clientIp}`,
+        TYPED_MESSAGE_RATE_LIMIT,
+        TYPED_MESSAGE_RATE_WINDOW_MS
+      )
+      headers = rateLimitHeaders(TYPED_MESSAGE_RATE_LIMIT, rateLimit)
+
+      if (!rateLimit.allowed) {
+        console.warn('[Messages API] Rate limit exceeded:', {
+          sessionId: session.id,
+          clientIp,
+        })
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Too many API calls. Please wait before trying again.',
+            retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+          },
+          { status: 429, headers }
+        )
+      }
+    }
+
+    // Delivery updates go to the chat over SSE. They carry the client's own
+    // key too, since the chat shows the message before it has our id.
+    const clientKey = typeof clientId === 'string' ? { clientId } : {}
+    const { id } = await addSessionMessage(session.id, {
+      direction: 'outbound',
+      text,
+      ...(textLanguage && { language: textLanguage }),
+      deliveryStatus: 'sending',
+    })
+    if (location) {
+      // Later menu and SMS requests describe the new position
+      await updateSession(session.id, {
+        movedTo: {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          timestamp: Date.now(),
+        },
+      })
+    }
+    publishSessionEvent(session.id, {
+      type: 'message',
+      data: { id, ...clientKey, state: 'sending' },
+    })
+
+    try {
+      // Prepared audio is at normal speed, so it is skipped once the
+      // operator has asked for slower speech
+      const reply =
+        quickReplyId && !session.slowSpeech
+          ? getPreparedQuickReply(session.id, quickReplyId)
+          : null
+      const dispatchLanguage = session.routing?.language || null
+      const translation = reply
+        ? reply.translation
+        : movedMessage
+        ? await translateForDelivery(movedMessage, 'en', dispatchLanguage)
+        : await translateSpokenMessage(
+            words,
+            frameTypedMessage,
+            quickReplyId ? 'en' : language,
+            dispatchLanguage
+          )
+      const spokenText = translation
+        ? translation.text
+        : movedMessage || frameTypedMessage(words)
+      const mode = await deliverMessage(
+        request,
+        session.callSid,
+        spokenText,
+        reply,
+        sessionSpeechOptions(session)
+      )
+      await updateSessionMessage(session.id, id, {
+        deliveryStatus: 'delivered',
+        spokenText,
+        ...(translation && { translation }),
+      })
+      publishSessionEvent(session.id, {
+        type: 'message',
+        data: {
+          id,
+          ...clientKey,
+          state: 'delivered',
+          spokenText: translation?.text,
+        },
+      })
+      return NextResponse.json(
+        { success: true, mode, messageId: id },
+        { headers }
+      )
+    } catch (error) {
+      await updateSessionMessage(session.id, id, { deliveryStatus: 'failed' })
+      publishSessionEvent(session.id, {
+        type: 'message',
+        data: {
+          id,
+          ...clientKey,
+          state: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      })
+      throw error
+    }
+  } catch (error) {
+    console.error('[Messages API] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    )
+  }
+}
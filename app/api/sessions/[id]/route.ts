@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, listSessionMessages } from '@/lib/sessions'
+import { toPublicRouting } from '@/lib/routing'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getSession(params.id)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  const messages = await listSessionMessages(session.id)
+
+  return NextResponse.json({
+    success: true,
+    sessionId: session.id,
+    status: session.status,
+    callSid: session.callSid,
+    routing: session.routing && toPublicRouting(session.routing),
+    emergencyMessage: session.emergencyMessage,
+    error: session.error,
+    messages,
+  })
+}
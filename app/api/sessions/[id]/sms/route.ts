@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  addSessionMessage,
+  getSession,
+  updateSessionMessage,
+} from '@/lib/sessions'
+import { getTelephonyProvider } from '@/lib/telephony'
+import { publishSessionEvent } from '@/lib/session-events'
+import { buildLocationSms } from '@/lib/emergency-message'
+import { checkRateLimit, rateLimitHeaders } from '@/lib/utils'
+
+// Where location texts go. Emergency lines often can't receive SMS, so
+// dispatch centres that take texts on another number set it here; otherwise
+// the text goes to the number that was dialed.
+const DISPATCH_SMS_NUMBER = process.env.DISPATCH_SMS_NUMBER
+
+// Each text is a paid SMS to the dispatch centre: 5 per hour per session
+const SMS_RATE_LIMIT = 5
+const SMS_RATE_WINDOW_MS = 60 * 60 * 1000
+
+// Text the operator the person's address, coordinates, a map link and a
+// summary of the incident, so nothing depends on hearing them right.
+// Delivery is reported to the chat like a spoken message.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession(params.id)
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (!session.callSid || !session.routing) {
+      return NextResponse.json(
+        { error: 'Call has not started yet' },
+        { status: 409 }
+      )
+    }
+
+    const telephony = getTelephonyProvider()
+    if (!telephony.callerId) {
+      return NextResponse.json(
+        { error: 'No number to send SMS from' },
+        { status: 500 }
+      )
+    }
+
+    const rateLimit = checkRateLimit(
+      `sms:${session.id}`,
+      SMS_RATE_LIMIT,
+      SMS_RATE_WINDOW_MS
+    )
+    const headers = rateLimitHeaders(SMS_RATE_LIMIT, rateLimit)
+
+    if (!rateLimit.allowed) {
+      console.warn('[SMS API] Rate limit exceeded:', { sessionId: session.id })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many API calls. Please wait before trying again.',
+          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+        },
+        { status: 429, headers }
+      )
+    }
+
+    const { clientId } = await request.json().catch(() => ({}))
+    const to = DISPATCH_SMS_NUMBER || session.routing.dialNumber
+    const text = await buildLocationSms(
+      session.emergencyData,
+      session.routing.language,
+      session.movedTo
+    )
+
+    // The chat matches delivery updates by its own key until it has our id
+    const clientKey = typeof clientId === 'string' ? { clientId } : {}
+    const { id } = await addSessionMessage(session.id, {
+      direction: 'outbound',
+      text,
+      channel: 'sms',
+      deliveryStatus: 'sending',
+    })
+    publishSessionEvent(session.id, {
+      type: 'message',
+      data: { id, ...clientKey, state: 'sending' },
+    })
+
+    try {
+      const sms = await telephony.sendSms({
+        to,
+        from: telephony.callerId,
+        body: text,
+      })
+      console.log('[SMS API] Location sent:', {
+        sessionId: session.id,
+        to,
+        sid: sms.sid,
+      })
+
+      await updateSessionMessage(session.id, id, {
+        deliveryStatus: 'delivered',
+      })
+      publishSessionEvent(session.id, {
+        type: 'message',
+        data: { id, ...clientKey, state: 'delivered' },
+      })
+      return NextResponse.json(
+        { success: true, messageId: id, to, text },
+        { headers }
+      )
+    } catch (error) {
+      await updateSessionMessage(session.id, id, { deliveryStatus: 'failed' })
+      publishSessionEvent(session.id, {
+        type: 'message',
+        data: {
+          id,
+          ...clientKey,
+          state: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      })
+      throw error
+    }
+  } catch (error) {
+    console.error('[SMS API] Error:', error)
+    return NextResponse.json({ error: 'Failed to send SMS' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit, getClientIp, rateLimitHeaders } from '@/lib/utils'
+import { buildEmergencyMessage } from '@/lib/emergency-message'
+import { addSessionMessage, createSession } from '@/lib/sessions'
+import { runEmergencySession } from '@/lib/orchestrator'
+import { getBaseUrl } from '@/lib/url'
+import { EmergencyData } from '@/lib/types'
+import { isDirectoryNumber } from '@/lib/routing'
+import { languageOf } from '@/lib/translation'
+import { sanitizeTriage } from '@/lib/triage'
+import { getService } from '@/lib/services'
+
+// 5 emergency sessions per hour per IP address
+const SESSION_RATE_LIMIT = 5
+const SESSION_RATE_WINDOW_MS = 60 * 60 * 1000
+
+export async function POST(request: NextRequest) {
+  const clientIp = getClientIp(request.headers)
+  const rateLimit = checkRateLimit(
+    `sessions:${clientIp}`,
+    SESSION_RATE_LIMIT,
+    SESSION_RATE_WINDOW_MS
+  )
+  const headers = rateLimitHeaders(SESSION_RATE_LIMIT, rateLimit)
+
+  if (!rateLimit.allowed) {
+    console.warn('[Sessions API] Rate limit exceeded:', { clientIp })
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Too many API calls. Please wait before trying again.',
+        retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+      },
+      { status: 429, headers }
+    )
+  }
+
+  try {
+    const body = await request.json()
+
+    if (
+      !body ||
+      typeof body.serviceNeeded !== 'string' ||
+      typeof body.description !== 'string' ||
+      (!body.location && !body.manualAddress)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            'Missing required parameters: serviceNeeded, description, and location or manualAddress',
+        },
+        { status: 400, headers }
+      )
+    }
+
+    if (!getService(body.serviceNeeded)) {
+      return NextResponse.json(
+        { error: 'serviceNeeded must be a service from the catalog' },
+        { status: 400, headers }
+      )
+    }
+
+    // Overrides are limited to known emergency lines
+    if (body.dialOverride && !isDirectoryNumber(body.dialOverride)) {
+      return NextResponse.json(
+        { error: 'dialOverride must be a number from the emergency directory' },
+        { status: 400, headers }
+      )
+    }
+
+    const emergencyData: EmergencyData = {
+      serviceNeeded: body.serviceNeeded,
+      description: body.description,
+      location: body.location || null,
+      manualAddress: body.manualAddress || null,
+      countryCode: body.countryCode || null,
+      dialOverride: body.dialOverride || null,
+      triage: sanitizeTriage(body.serviceNeeded, body.triage),
+      browserLanguage: body.browserLanguage || 'en',
+      timestamp: body.timestamp || new Date().toISOString(),
+    }
+
+    const emergencyMessage = buildEmergencyMessage(emergencyData)
+    const session = await createSession(emergencyData, emergencyMessage)
+    // Always the session's first message; the orchestrator adds what the
+    // operator hears once it is translated
+    await addSessionMessage(session.id, {
+      direction: 'outbound',
+      text: emergencyMessage,
+      language: languageOf(emergencyData.browserLanguage) || undefined,
+    })
+
+    // Deliberately not awaited: the call goes ahead even if the client drops.
+    // It records its own failures; this only guards against a crash.
+    runEmergencySession(session.id, getBaseUrl(request)).catch((error) =>
+      console.error('[Sessions API] Session startup crashed:', error)
+    )
+
+    return NextResponse.json(
+      {
+        success: true,
+        sessionId: session.id,
+        emergencyMessage,
+      },
+      { status: 202, headers }
+    )
+  } catch (error) {
+    console.error('[Sessions API] Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers }
+    )
+  }
+}
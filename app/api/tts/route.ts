@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit, getClientIp, rateLimitHeaders } from '@/lib/utils'
+import {
+  getSpeechSynthesizer,
+  isValidModelId,
+  isValidVoiceId,
+  isValidVoiceSettings,
+  MAX_TTS_CHARACTERS,
+} from '@/lib/speech'
+import { saveAudioFile, getAudioUrl } from '@/lib/audio-storage'
+import { getBaseUrl } from '@/lib/url'
+import { getSession } from '@/lib/sessions'
+
+// 20 TTS requests per hour per IP address
+const TTS_RATE_LIMIT = 20
+const TTS_RATE_WINDOW_MS = 60 * 60 * 1000
+
+export async function POST(request: NextRequest) {
+  const clientIp = getClientIp(request.headers)
+  const rateLimit = checkRateLimit(
+    `tts:${clientIp}`,
+    TTS_RATE_LIMIT,
+    TTS_RATE_WINDOW_MS
+  )
+  const headers = rateLimitHeaders(TTS_RATE_LIMIT, rateLimit)
+
+  if (!rateLimit.allowed) {
+    console.warn('[TTS API] Rate limit exceeded:', { clientIp })
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Too many API calls. Please wait before trying again.',
+        retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+      },
+      { status: 429, headers }
+    )
+  }
+
+  try {
+    const { text, voiceId, modelId, voiceSettings, store, sessionId } =
+      await request.json()
+
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: text' },
+        { status: 400, headers }
+      )
+    }
+
+    if (text.length > MAX_TTS_CHARACTERS) {
+      return NextResponse.json(
+        { error: `Text exceeds ${MAX_TTS_CHARACTERS} characters` },
+        { status: 400, headers }
+      )
+    }
+
+    if (voiceId !== undefined && !isValidVoiceId(voiceId)) {
+      return NextResponse.json(
+        { error: 'voiceId must be 1 to 64 letters or digits' },
+        { status: 400, headers }
+      )
+    }
+
+    if (modelId !== undefined && !isValidModelId(modelId)) {
+      return NextResponse.json(
+        { error: 'modelId must be 1 to 64 letters, digits or underscores' },
+        { status: 400, headers }
+      )
+    }
+
+    if (voiceSettings !== undefined && !isValidVoiceSettings(voiceSettings)) {
+      return NextResponse.json(
+        {
+          error:
+            'voiceSettings takes stability and similarity_boost from 0 to 1 and an optional speed from 0.7 to 1.2',
+        },
+        { status: 400, headers }
+      )
+    }
+
+    const { audio, contentType } = await getSpeechSynthesizer().synthesize(
+      text,
+      { voiceId, modelId, voiceSettings }
+    )
+
+    if (!store) {
+      return new NextResponse(audio, {
+        headers: { ...headers, 'Content-Type': contentType },
+      })
+    }
+
+    // Host the audio so Twilio can <Play> it. Hosted audio belongs to a
+    // session and is deleted when its call ends.
+    const session =
+      typeof sessionId === 'string' ? await getSession(sessionId) : null
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Storing audio requires a valid sessionId' },
+        { status: 400, headers }
+      )
+    }
+
+    const audioId = await saveAudioFile(session.id, audio, contentType)
+    const audioUrl = getAudioUrl(getBaseUrl(request), audioId)
+
+    console.log('[TTS API] Hosted audio:', audioId)
+
+    return NextResponse.json(
+      {
+        success: true,
+        audioUrl,
+        audioId,
+      },
+      { headers }
+    )
+  } catch (error) {
+    console.error('[TTS API] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to synthesize speech' },
+      { status: 500, headers }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getPendingSpeech,
+  isValidPendingSpeechSignature,
+} from '@/lib/pending-speech'
+import { getSpeechSynthesizer } from '@/lib/speech'
+
+export const dynamic = 'force-dynamic'
+
+// Streams a pending message's audio to Twilio <Play> while it is still being
+// synthesized, so the operator hears the first words within a second. Like
+// /api/audio/:id, only URLs signed by getPendingSpeechUrl work, and only
+// until they expire.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { searchParams } = request.nextUrl
+  if (
+    !isValidPendingSpeechSignature(
+      params.id,
+      searchParams.get('expires'),
+      searchParams.get('signature')
+    )
+  ) {
+    return NextResponse.json(
+      { error: 'Invalid or expired speech URL' },
+      { status: 403 }
+    )
+  }
+
+  const speech = getPendingSpeech(params.id)
+  if (!speech) {
+    return NextResponse.json({ error: 'Speech not found' }, { status: 404 })
+  }
+
+  const { contentType, chunks } = getSpeechSynthesizer().stream(
+    speech.text,
+    speech.options
+  )
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        console.error('[TTS Stream API] Error:', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
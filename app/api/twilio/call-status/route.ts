@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getCallState } from '@/lib/call-events'
+import { getTelephonyProvider, TelephonyError } from '@/lib/telephony'
 
-const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID
-const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN
-
+// Answers from the status Twilio last reported to /api/twilio/status-callback.
+// Only calls with no recorded callbacks (e.g. an unreachable webhook URL) are
+// looked up with the provider.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -15,69 +17,27 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
-      return NextResponse.json(
-        { error: 'Missing Twilio credentials' },
-        { status: 500 }
-      )
-    }
-
-    // Get call status from Twilio
-    const response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
-      {
-        headers: {
-          Authorization: `Basic ${Buffer.from(
-            `${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`
-          ).toString('base64')}`,
-        },
-      }
-    )
-
-    if (!response.ok) {
-      console.error(
-        '[Call Status API] Error fetching call status:',
-        response.statusText
-      )
-      return NextResponse.json(
-        { error: 'Failed to fetch call status' },
-        { status: response.status }
-      )
-    }
-
-    const callData = await response.json()
-
-    // Map Twilio status to our app status
-    let appStatus: string
-    switch (callData.status) {
-      case 'queued':
-      case 'ringing':
-        appStatus = 'ringing'
-        break
-      case 'in-progress':
-        appStatus = 'active'
-        break
-      case 'completed':
-      case 'busy':
-      case 'failed':
-      case 'no-answer':
-        appStatus = 'ended'
-        break
-      default:
-        appStatus = callData.status
+    const callState = await getCallState(callSid)
+    if (callState) {
+      return NextResponse.json({
+        success: true,
+        ...callState,
+      })
     }
 
+    const callStatus = await getTelephonyProvider().getStatus(callSid)
     return NextResponse.json({
       success: true,
-      status: appStatus,
-      twilioStatus: callData.status,
-      answeredBy: callData.answered_by,
-      duration: callData.duration,
-      startTime: callData.start_time,
-      endTime: callData.end_time,
+      ...callStatus,
     })
   } catch (error) {
     console.error('[Call Status API] Error:', error)
+    if (error instanceof TelephonyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -1,64 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID
-const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN
+import { getTelephonyProvider, TelephonyError } from '@/lib/telephony'
+import { getSession } from '@/lib/sessions'
 
 export async function POST(request: NextRequest) {
   try {
-    const { callSid } = await request.json()
+    const { sessionId, callSid } = await request.json()
+    const telephony = getTelephonyProvider()
 
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
+    if (!telephony.isConfigured()) {
       return NextResponse.json(
         { error: 'Missing Twilio credentials' },
         { status: 500 }
       )
     }
 
-    if (!callSid) {
+    if (!sessionId || !callSid) {
       return NextResponse.json(
-        { error: 'Missing required parameter: callSid' },
+        { error: 'Missing required parameters: sessionId or callSid' },
         { status: 400 }
       )
     }
 
-    console.log('[Twilio API] Ending call:', callSid)
-
-    // End the call using Twilio API
-    const response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Basic ${Buffer.from(
-            `${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`
-          ).toString('base64')}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          Status: 'completed',
-        }),
-      }
-    )
-
-    if (!response.ok) {
-      const errorData = await response.text()
-      console.error('[Twilio API] Error ending call:', errorData)
+    // The session id is the caller's proof that the call is theirs
+    const session = await getSession(String(sessionId))
+    if (!session || session.callSid !== callSid) {
       return NextResponse.json(
-        { error: 'Failed to end Twilio call' },
-        { status: response.status }
+        { error: 'No session owns this call' },
+        { status: 404 }
       )
     }
 
-    const data = await response.json()
-    console.log('[Twilio API] Call ended successfully:', data.sid)
+    console.log('[Twilio API] Ending call:', callSid)
+
+    const call = await telephony.hangup(callSid)
+    console.log('[Twilio API] Call ended successfully:', call.sid)
 
     return NextResponse.json({
       success: true,
-      callSid: data.sid,
-      status: data.status,
+      callSid: call.sid,
+      status: call.status,
     })
   } catch (error) {
     console.error('[Twilio API] Error:', error)
+    if (error instanceof TelephonyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
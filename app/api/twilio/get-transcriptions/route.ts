@@ -1,14 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-// In-memory storage for transcriptions (in production, use a database)
-const transcriptionStore = new Map<
-  string,
-  Array<{
-    text: string
-    timestamp: number
-    callSid: string
-  }>
->()
+import { getTranscriptions } from '@/lib/transcripts'
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,16 +15,16 @@ export async function GET(request: NextRequest) {
     }
 
     const sinceTime = since ? parseInt(since) : 0
-    const transcriptions = transcriptionStore.get(callSid) || []
-
-    // Filter transcriptions since the last check
-    const newTranscriptions = transcriptions.filter(
-      (transcription) => transcription.timestamp > sinceTime
-    )
+    const transcriptions = await getTranscriptions(callSid, sinceTime)
 
     return NextResponse.json({
       success: true,
-      transcriptions: newTranscriptions,
+      transcriptions: transcriptions.map((transcription) => ({
+        text: transcription.translation?.text || transcription.text,
+        originalText: transcription.translation ? transcription.text : null,
+        timestamp: transcription.timestamp,
+        callSid,
+      })),
     })
   } catch (error) {
     console.error('[Get Transcriptions API] Error:', error)
@@ -43,22 +34,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-// Function to add transcriptions (called from recording callback)
-export function addTranscription(callSid: string, text: string) {
-  const transcription = {
-    text,
-    timestamp: Date.now(),
-    callSid,
-  }
-
-  const existingTranscriptions = transcriptionStore.get(callSid) || []
-  existingTranscriptions.push(transcription)
-  transcriptionStore.set(callSid, existingTranscriptions)
-
-  console.log('[Transcription Store] Added transcription:', {
-    callSid,
-    text,
-    timestamp: transcription.timestamp,
-  })
-}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  buildAfterMenuTwiml,
+  handleMenuKey,
+  parseMenuKey,
+} from '@/lib/call-menu'
+import { getSessionByCallSid } from '@/lib/sessions'
+import { addTranscription } from '@/lib/transcripts'
+import { validateTwilioWebhook } from '@/lib/twilio-signature'
+import { getBaseUrl } from '@/lib/url'
+
+function twimlResponse(twiml: string): NextResponse {
+  return new NextResponse(twiml, {
+    headers: { 'Content-Type': 'application/xml' },
+  })
+}
+
+// <Gather> action for the call menu announcement. The operator either picked
+// an option (a key, or one of its phrases in the dispatch language) or
+// started talking, in which case what they said is passed on like any other
+// reply. Either way the call then goes back to listening, through the media
+// stream on stream calls.
+export async function POST(request: NextRequest) {
+  const webhook = await validateTwilioWebhook(request)
+  if (!webhook.valid) {
+    return webhook.response
+  }
+
+  const baseUrl = getBaseUrl(request)
+  let sessionId: string | null = null
+
+  try {
+    const { CallSid, Digits, SpeechResult } = webhook.params
+    const session = CallSid ? await getSessionByCallSid(CallSid) : null
+    if (!session) {
+      console.warn('[Call Menu] No session for call:', CallSid)
+      return twimlResponse(buildAfterMenuTwiml(baseUrl, null, null))
+    }
+    sessionId = session.id
+
+    const key = parseMenuKey(Digits, SpeechResult, session.routing?.language)
+    const response = key ? await handleMenuKey(session, key) : null
+    if (response) {
+      return twimlResponse(buildAfterMenuTwiml(baseUrl, sessionId, response))
+    }
+
+    if (SpeechResult?.trim()) {
+      await addTranscription(CallSid, SpeechResult)
+    }
+    return twimlResponse(buildAfterMenuTwiml(baseUrl, sessionId, null))
+  } catch (error) {
+    console.error('[Call Menu] Error:', error)
+    return twimlResponse(buildAfterMenuTwiml(baseUrl, sessionId, null))
+  }
+}
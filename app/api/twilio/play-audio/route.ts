@@ -1,93 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID
-const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN
+import { buildPlayAndRecordTwiml } from '@/lib/twilio'
+import { getTelephonyProvider, TelephonyError } from '@/lib/telephony'
+import { getSession } from '@/lib/sessions'
+import { getBaseUrl } from '@/lib/url'
+import { isHostedAudioUrl } from '@/lib/audio-storage'
 
 export async function POST(request: NextRequest) {
   try {
-    const { callSid, audioUrl } = await request.json()
+    const { sessionId, callSid, audioUrl } = await request.json()
+    const telephony = getTelephonyProvider()
 
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
+    if (!telephony.isConfigured()) {
       return NextResponse.json(
         { error: 'Missing Twilio credentials' },
         { status: 500 }
       )
     }
 
-    if (!callSid || !audioUrl) {
+    if (!sessionId || !callSid || !audioUrl) {
       return NextResponse.json(
-        { error: 'Missing required parameters: callSid or audioUrl' },
+        {
+          error: 'Missing required parameters: sessionId, callSid or audioUrl',
+        },
         { status: 400 }
       )
     }
 
-    console.log('[Twilio API] Playing audio in call:', { callSid, audioUrl })
-
-    // Get the proper base URL for webhooks
-    const forwardedHost = request.headers.get('x-forwarded-host')
-    const forwardedProto = request.headers.get('x-forwarded-proto')
+    // The session id is the caller's proof that the call is theirs
+    const session = await getSession(String(sessionId))
+    if (!session || session.callSid !== callSid) {
+      return NextResponse.json(
+        { error: 'No session owns this call' },
+        { status: 404 }
+      )
+    }
 
-    let baseUrl: string
-    if (forwardedHost && forwardedProto) {
-      // Use ngrok URL
-      baseUrl = `${forwardedProto}://${forwardedHost}`
-    } else {
-      // Fallback to local URL
-      baseUrl = request.nextUrl.origin
+    // Only audio this server synthesized and signed may reach the call
+    const baseUrl = getBaseUrl(request)
+    if (!isHostedAudioUrl(baseUrl, audioUrl)) {
+      return NextResponse.json(
+        { error: 'audioUrl must be a hosted audio URL from /api/tts' },
+        { status: 400 }
+      )
     }
 
+    console.log('[Twilio API] Playing audio in call:', { callSid, audioUrl })
+
     const callbackUrl = `${baseUrl}/api/twilio/recording-callback`
     console.log('[Twilio API] Using callback URL:', callbackUrl)
 
-    // Create TwiML for playing audio
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${audioUrl}</Play>
-  <Record 
-    action="${callbackUrl}"
-    method="POST"
-    maxLength="30"
-    playBeep="true"
-    trim="trim-silence"
-  />
-</Response>`
-
     // Update the call with new TwiML
-    const response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Basic ${Buffer.from(
-            `${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`
-          ).toString('base64')}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          Twiml: twiml,
-        }),
-      }
+    const call = await telephony.updateCall(
+      callSid,
+      buildPlayAndRecordTwiml(audioUrl, callbackUrl, 30)
     )
-
-    if (!response.ok) {
-      const errorData = await response.text()
-      console.error('[Twilio API] Error updating call:', errorData)
-      return NextResponse.json(
-        { error: 'Failed to update Twilio call' },
-        { status: response.status }
-      )
-    }
-
-    const data = await response.json()
-    console.log('[Twilio API] Call updated successfully:', data.sid)
+    console.log('[Twilio API] Call updated successfully:', call.sid)
 
     return NextResponse.json({
       success: true,
-      callSid: data.sid,
-      status: data.status,
+      callSid: call.sid,
+      status: call.status,
     })
   } catch (error) {
     console.error('[Twilio API] Error:', error)
+    if (error instanceof TelephonyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
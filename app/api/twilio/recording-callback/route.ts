@@ -1,66 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { addTranscription } from '../get-transcriptions/route'
+import { addTranscription } from '@/lib/transcripts'
+import { validateTwilioWebhook } from '@/lib/twilio-signature'
+import { getTelephonyProvider } from '@/lib/telephony'
+import { getSpeechRecognizer, toLanguageHint } from '@/lib/speech'
+import { getSessionByCallSid } from '@/lib/sessions'
+import {
+  buildMenuReplyTwiml,
+  handleMenuKey,
+  parseMenuKey,
+} from '@/lib/call-menu'
+import { getBaseUrl } from '@/lib/url'
 
-const ELEVEN_API_KEY = process.env.ELEVEN_API_KEY
-const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID
-const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN
-
-async function downloadRecordingWithRetry(
-  recordingUrl: string,
-  maxRetries = 3
-): Promise<Blob> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(
-        `[Twilio Callback] Attempt ${attempt} to download recording...`
-      )
-
-      const recordingResponse = await fetch(recordingUrl, {
-        headers: {
-          Authorization: `Basic ${Buffer.from(
-            `${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`
-          ).toString('base64')}`,
-        },
-      })
-
-      if (recordingResponse.ok) {
-        const audioBlob = await recordingResponse.blob()
-        console.log(
-          `[Twilio Callback] Successfully downloaded recording on attempt ${attempt}, size:`,
-          audioBlob.size
-        )
-        return audioBlob
-      } else {
-        console.log(`[Twilio Callback] Attempt ${attempt} failed:`, {
-          status: recordingResponse.status,
-          statusText: recordingResponse.statusText,
-        })
-
-        if (attempt < maxRetries) {
-          // Wait before retrying (exponential backoff)
-          const waitTime = Math.pow(2, attempt) * 1000 // 2s, 4s, 8s
-          console.log(`[Twilio Callback] Waiting ${waitTime}ms before retry...`)
-          await new Promise((resolve) => setTimeout(resolve, waitTime))
-        }
-      }
-    } catch (error) {
-      console.error(`[Twilio Callback] Attempt ${attempt} error:`, error)
-      if (attempt < maxRetries) {
-        const waitTime = Math.pow(2, attempt) * 1000
-        await new Promise((resolve) => setTimeout(resolve, waitTime))
-      }
-    }
+export async function POST(request: NextRequest) {
+  // Only Twilio may report recordings; anything else could inject fake
+  // operator messages into someone's chat
+  const webhook = await validateTwilioWebhook(request)
+  if (!webhook.valid) {
+    return webhook.response
   }
 
-  throw new Error(`Failed to download recording after ${maxRetries} attempts`)
-}
-
-export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData()
-    const recordingUrl = formData.get('RecordingUrl') as string
-    const callSid = formData.get('CallSid') as string
-    const recordingDuration = formData.get('RecordingDuration') as string
+    const recordingUrl = webhook.params.RecordingUrl
+    const callSid = webhook.params.CallSid
+    const recordingDuration = webhook.params.RecordingDuration
 
     if (!recordingUrl || !callSid) {
       console.error('[Twilio Callback] Missing recording URL or call SID')
@@ -75,14 +37,29 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    // A key pressed during <Record> ends the recording and arrives as
+    // Digits; menu keys get their answer instead of a transcription
+    const menuKey = parseMenuKey(webhook.params.Digits)
+    if (menuKey) {
+      const session = await getSessionByCallSid(callSid)
+      const response = session && (await handleMenuKey(session, menuKey))
+      if (response) {
+        return new NextResponse(
+          buildMenuReplyTwiml(getBaseUrl(request), response),
+          { headers: { 'Content-Type': 'application/xml' } }
+        )
+      }
+    }
+
     console.log('[Twilio Callback] Received recording:', {
       recordingUrl,
       callSid,
       recordingDuration,
     })
 
-    if (!ELEVEN_API_KEY || !TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
-      console.error('[Twilio Callback] Missing API keys')
+    const telephony = getTelephonyProvider()
+    if (!telephony.isConfigured()) {
+      console.error('[Twilio Callback] Missing telephony credentials')
       const errorTwiML = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   <Say>Configuration error</Say>
@@ -94,8 +71,8 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-      // Download the recording from Twilio with retry mechanism
-      const audioBlob = await downloadRecordingWithRetry(recordingUrl)
+      // Download the recording (the provider retries while it is not ready)
+      const audioBlob = await telephony.downloadRecording(recordingUrl)
 
       // Check if the recording has actual content
       if (audioBlob.size === 0) {
@@ -117,142 +94,27 @@ export async function POST(request: NextRequest) {
         })
       }
 
-      // Transcribe the audio using ElevenLabs
-      // Try using the Twilio recording URL directly first
-      console.log(
-        '[Twilio Callback] Attempting transcription with Twilio URL...'
-      )
+      console.log('[Twilio Callback] Sending audio for transcription:', {
+        size: audioBlob.size,
+        type: audioBlob.type,
+      })
 
-      const transcriptionResponse = await fetch(
-        'https://api.elevenlabs.io/v1/speech-to-text',
-        {
-          method: 'POST',
-          headers: {
-            'xi-api-key': ELEVEN_API_KEY,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            audio_url: recordingUrl,
-            model_id: 'scribe_v1',
-          }),
-        }
+      // The operator speaks the dispatch country's language
+      const session = await getSessionByCallSid(callSid)
+      const transcribedText = await getSpeechRecognizer().transcribe(
+        audioBlob,
+        'recording.wav',
+        { language: toLanguageHint(session?.routing?.language) }
       )
 
-      if (!transcriptionResponse.ok) {
-        console.log(
-          '[Twilio Callback] Direct URL transcription failed, trying with downloaded audio...'
-        )
-
-        // Fallback to downloading the audio first
-        const formDataForTranscription = new FormData()
-        formDataForTranscription.append('file', audioBlob, 'recording.wav')
-        formDataForTranscription.append('model_id', 'scribe_v1')
-
-        console.log(
-          '[Twilio Callback] Sending audio to ElevenLabs for transcription...'
-        )
-        console.log('[Twilio Callback] Audio blob info:', {
-          size: audioBlob.size,
-          type: audioBlob.type,
-        })
-
-        const fallbackResponse = await fetch(
-          'https://api.elevenlabs.io/v1/speech-to-text',
-          {
-            method: 'POST',
-            headers: {
-              'xi-api-key': ELEVEN_API_KEY,
-            },
-            body: formDataForTranscription,
-          }
-        )
-
-        if (!fallbackResponse.ok) {
-          const errorText = await fallbackResponse.text()
-          console.error(
-            '[Twilio Callback] ElevenLabs transcription error response:',
-            {
-              status: fallbackResponse.status,
-              statusText: fallbackResponse.statusText,
-              body: errorText,
-            }
-          )
-
-          let errorMessage = `Transcription failed: ${fallbackResponse.status} ${fallbackResponse.statusText}`
-          try {
-            const errorData = JSON.parse(errorText)
-            errorMessage = `Transcription failed: ${
-              errorData.message || errorData.detail || errorMessage
-            }`
-          } catch (e) {
-            // If we can't parse JSON, use the raw text
-            errorMessage = `Transcription failed: ${errorText}`
-          }
-
-          console.error('[Twilio Callback] Transcription error:', errorMessage)
-
-          // Continue the call even if transcription fails
-          const errorTwiML = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say>I had trouble understanding. Please try again.</Say>
-  <Record 
-    action="/api/twilio/recording-callback"
-    method="POST"
-    maxLength="5"
-    playBeep="true"
-    trim="trim-silence"
-    timeout="3"
-  />
-</Response>`
-          return new NextResponse(errorTwiML, {
-            headers: { 'Content-Type': 'application/xml' },
-          })
-        }
-
-        const transcriptionData = await fallbackResponse.json()
-        const transcribedText = transcriptionData.text
-
-        console.log(
-          '[Twilio Callback] Transcription successful (fallback):',
-          transcribedText
-        )
-
-        // Only store transcription if there's actual text
-        if (transcribedText && transcribedText.trim()) {
-          addTranscription(callSid, transcribedText)
-        } else {
-          console.log('[Twilio Callback] No text transcribed, skipping storage')
-        }
-
-        // Continue the call with another recording
-        const successTwiML = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say>Thank you. The person at risk is now replying.</Say>
-  <Record 
-    action="/api/twilio/recording-callback"
-    method="POST"
-    maxLength="10"
-    playBeep="true"
-    trim="trim-silence"
-    timeout="3"
-  />
-</Response>`
-        return new NextResponse(successTwiML, {
-          headers: { 'Content-Type': 'application/xml' },
-        })
-      }
-
-      const transcriptionData = await transcriptionResponse.json()
-      const transcribedText = transcriptionData.text
-
       console.log(
-        '[Twilio Callback] Transcription successful (direct URL):',
+        '[Twilio Callback] Transcription successful:',
         transcribedText
       )
 
       // Only store transcription if there's actual text
       if (transcribedText && transcribedText.trim()) {
-        addTranscription(callSid, transcribedText)
+        await addTranscription(callSid, transcribedText)
       } else {
         console.log('[Twilio Callback] No text transcribed, skipping storage')
       }
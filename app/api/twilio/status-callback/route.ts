@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordCallEvent } from '@/lib/call-events'
+import { validateTwilioWebhook } from '@/lib/twilio-signature'
+
+// Twilio's StatusCallback for calls we place: initiated, ringing, answered
+// (in-progress) and the terminal status, which says why the call ended
+export async function POST(request: NextRequest) {
+  const webhook = await validateTwilioWebhook(request)
+  if (!webhook.valid) {
+    return webhook.response
+  }
+
+  try {
+    const { CallSid, CallStatus, SequenceNumber, Timestamp, CallDuration } =
+      webhook.params
+
+    if (!CallSid || !CallStatus) {
+      return NextResponse.json(
+        { error: 'Missing CallSid or CallStatus' },
+        { status: 400 }
+      )
+    }
+
+    const receivedAt = Date.now()
+    const timestamp = Timestamp ? Date.parse(Timestamp) : NaN
+
+    await recordCallEvent({
+      callSid: CallSid,
+      twilioStatus: CallStatus,
+      sequenceNumber: SequenceNumber ? parseInt(SequenceNumber) : 0,
+      timestamp: isNaN(timestamp) ? receivedAt : timestamp,
+      receivedAt,
+      duration: CallDuration ? parseInt(CallDuration) : null,
+      answeredBy: webhook.params.AnsweredBy || null,
+    })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('[Status Callback] Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,15 @@
+import { notFound } from 'next/navigation'
+import OperatorConsole from '@/components/OperatorConsole'
+
+export const metadata = {
+  title: 'Operator Simulator · SOSBridge',
+}
+
+// Development tool: stands in for the emergency operator on mock calls
+export default function OperatorPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound()
+  }
+
+  return <OperatorConsole />
+}
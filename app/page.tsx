@@ -1,10 +1,14 @@
 "use client";
 
-import { useState } from "react";
-import { motion } from "framer-motion";
+import { useCallback, useEffect, useState } from "react";
+import { motion, MotionGlobalConfig } from "framer-motion";
 import EmergencyForm from "@/components/EmergencyForm";
 import Chat from "@/components/Chat";
 import ErrorBanner from "@/components/ErrorBanner";
+import DecoyScreen from "@/components/DecoyScreen";
+import SosPresets from "@/components/SosPresets";
+import { useHideGesture } from "@/hooks/useHideGesture";
+import { usePresets } from "@/hooks/usePresets";
 import Image from "next/image";
 import {
   Dialog,
@@ -13,15 +17,7 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
-
-interface EmergencyData {
-  serviceNeeded: string;
-  description: string;
-  location: { latitude: number; longitude: number } | null;
-  manualAddress: string | null;
-  browserLanguage: string;
-  timestamp: string;
-}
+import { EmergencyData } from "@/lib/types";
 
 export default function Home() {
   const [error, setError] = useState<string | null>(null);
@@ -29,6 +25,20 @@ export default function Home() {
     null
   );
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [stealth, setStealth] = useState(false);
+  const [isHidden, setIsHidden] = useState(false);
+  const { presets, add: addPreset, remove: removePreset } = usePresets();
+
+  const hide = useCallback(() => setIsHidden(true), []);
+  useHideGesture(stealth && !isHidden, hide);
+
+  // Stealth mode dims the whole document (see globals.css), stops every
+  // framer-motion animation and gives the tab a title that doesn't stand out
+  useEffect(() => {
+    document.documentElement.classList.toggle("stealth", stealth);
+    MotionGlobalConfig.skipAnimations = stealth;
+    document.title = stealth ? "Calculator" : "SOSBridge";
+  }, [stealth]);
 
   const handleEmergencySubmit = (data: EmergencyData) => {
     setEmergencyData(data);
@@ -45,37 +55,41 @@ export default function Home() {
         emergencyData ? "h-full" : "min-h-full"
       } flex flex-col items-center justify-center p-4 relative bg-[#0E1017]`}
     >
+      {isHidden && <DecoyScreen onExit={() => setIsHidden(false)} />}
+
       {/* Warning Banner */}
-      <div className="fixed top-0 left-0 right-0 z-50 bg-[#0EB268]/90 border-b border-[#0EB268] backdrop-blur-sm">
-        <div className="px-2 sm:px-4 py-2 sm:py-3">
-          <div className="text-center">
-            <p className="text-white text-xs sm:text-sm leading-tight">
-              <span className="block sm:inline">
-                ⚠️ We've disabled calling in this public demo to protect our
-                personal numbers.
-              </span>{" "}
-              <span className="block sm:inline mt-1 sm:mt-0">
-                <a
-                  href="https://www.youtube.com/watch?v=3Nn6ITHqrCM"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-green-100 hover:text-white underline font-medium"
-                >
-                  Watch the demo
-                </a>{" "}
-                or{" "}
-                <button
-                  onClick={() => setIsModalOpen(true)}
-                  className="text-green-100 hover:text-white underline font-medium bg-transparent border-none cursor-pointer p-0"
-                >
-                  run it yourself
-                </button>{" "}
-                to see it in action.
-              </span>
-            </p>
+      {!stealth && (
+        <div className="fixed top-0 left-0 right-0 z-50 bg-[#0EB268]/90 border-b border-[#0EB268] backdrop-blur-sm">
+          <div className="px-2 sm:px-4 py-2 sm:py-3">
+            <div className="text-center">
+              <p className="text-white text-xs sm:text-sm leading-tight">
+                <span className="block sm:inline">
+                  ⚠️ We've disabled calling in this public demo to protect our
+                  personal numbers.
+                </span>{" "}
+                <span className="block sm:inline mt-1 sm:mt-0">
+                  <a
+                    href="https://www.youtube.com/watch?v=3Nn6ITHqrCM"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-green-100 hover:text-white underline font-medium"
+                  >
+                    Watch the demo
+                  </a>{" "}
+                  or{" "}
+                  <button
+                    onClick={() => setIsModalOpen(true)}
+                    className="text-green-100 hover:text-white underline font-medium bg-transparent border-none cursor-pointer p-0"
+                  >
+                    run it yourself
+                  </button>{" "}
+                  to see it in action.
+                </span>
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Modal */}
       <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
@@ -134,21 +148,23 @@ export default function Home() {
       </Dialog>
 
       {/* Bolt logo in top-right corner */}
-      <a
-        href="https://bolt.new"
-        target="_blank"
-        rel="noopener noreferrer"
-        className="absolute top-20 right-2 sm:top-30 sm:right-4 z-10"
-        title="Powered by Bolt"
-      >
-        <Image
-          src="/bolt-logo.svg"
-          alt="Bolt"
-          width={75}
-          height={75}
-          className="object-contain w-10 h-10 sm:w-24 sm:h-24 md:w-24 md:h-24 "
-        />
-      </a>
+      {!stealth && (
+        <a
+          href="https://bolt.new"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="absolute top-20 right-2 sm:top-30 sm:right-4 z-10"
+          title="Powered by Bolt"
+        >
+          <Image
+            src="/bolt-logo.svg"
+            alt="Bolt"
+            width={75}
+            height={75}
+            className="object-contain w-10 h-10 sm:w-24 sm:h-24 md:w-24 md:h-24 "
+          />
+        </a>
+      )}
 
       {error && (
         <ErrorBanner message={error} onDismiss={() => setError(null)} />
@@ -159,7 +175,13 @@ export default function Home() {
         {emergencyData ? (
           // Show Chat component when emergency data is available
           <div className="w-full h-full">
-            <Chat emergencyData={emergencyData} onBack={handleBackToForm} />
+            <Chat
+              emergencyData={emergencyData}
+              stealth={stealth}
+              hidden={isHidden}
+              onHide={hide}
+              onBack={handleBackToForm}
+            />
           </div>
         ) : (
           // Show Emergency Form when no emergency data
@@ -170,23 +192,25 @@ export default function Home() {
             className="w-full max-w-md"
           >
             {/* Header */}
-            <div className="text-center mb-8 flex items-center justify-center">
-              <motion.div
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-                transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
-                className="relative"
-              >
-                <Image
-                  src="/web-logo.svg"
-                  alt="Logo"
-                  width={250}
-                  height={250}
-                  className="object-contain"
-                  priority
-                />
-              </motion.div>
-            </div>
+            {!stealth && (
+              <div className="text-center mb-8 flex items-center justify-center">
+                <motion.div
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
+                  className="relative"
+                >
+                  <Image
+                    src="/web-logo.svg"
+                    alt="Logo"
+                    width={250}
+                    height={250}
+                    className="object-contain"
+                    priority
+                  />
+                </motion.div>
+              </div>
+            )}
 
             {/* Main Form Card */}
             <motion.div
@@ -194,9 +218,19 @@ export default function Home() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.4 }}
             >
+              <SosPresets
+                presets={presets}
+                stealth={stealth}
+                onLaunch={handleEmergencySubmit}
+                onDelete={removePreset}
+                onError={setError}
+              />
               <EmergencyForm
+                stealth={stealth}
+                onStealthChange={setStealth}
                 onError={setError}
                 onSubmit={handleEmergencySubmit}
+                onSavePreset={addPreset}
               />
             </motion.div>
           </motion.div>
@@ -1,291 +1,315 @@
 'use client'
 
-import { useEffect, useState, useRef } from 'react'
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import { motion } from 'framer-motion'
 import ChatBubble from '@/components/ChatBubble'
 import LoaderDots from '@/components/LoaderDots'
 import ErrorBanner from '@/components/ErrorBanner'
-import { Send, ArrowLeft, Phone, PhoneOff, Volume2, Mic } from 'lucide-react'
+import LocationDisplay from '@/components/LocationDisplay'
+import {
+  Send,
+  ArrowLeft,
+  Phone,
+  PhoneOff,
+  Volume2,
+  Mic,
+  MapPin,
+  EyeOff,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { EmergencyData } from '@/lib/types'
+import { useSessionEvents } from '@/hooks/useSessionEvents'
+import { useGeolocation } from '@/hooks/useGeolocation'
+import { Coordinates, distanceInMeters, MOVE_THRESHOLD_METERS } from '@/lib/geo'
+import { getQuickReplies, QuickReply } from '@/lib/quick-replies'
 
 interface Message {
   id: string
   text: string
-  sender: 'user' | 'operator'
+  // System entries note what happened in the call, like a menu key press
+  sender: 'user' | 'operator' | 'system'
   timestamp: Date
-}
-
-interface EmergencyData {
-  serviceNeeded: string
-  description: string
-  location: { latitude: number; longitude: number } | null
-  manualAddress: string | null
-  browserLanguage: string
-  timestamp: string
+  deliveryStatus?: 'sending' | 'delivered' | 'failed'
+  // The other language version, when the message was translated
+  note?: string
 }
 
 interface Props {
   emergencyData: EmergencyData
+  // Dark, still and neutrally worded, for people who may be watched
+  stealth: boolean
+  // The decoy screen is up; what was on screen is cleared
+  hidden: boolean
+  onHide: () => void
   onBack: () => void
 }
 
-// ElevenLabs configuration
-const ELEVEN_API_KEY = process.env.NEXT_PUBLIC_ELEVEN_API_KEY
-const ELEVEN_VOICE_ID =
-  process.env.NEXT_PUBLIC_ELEVEN_VOICE_ID || '21m00Tcm4TlvDq8ikWAM' // Default voice ID
-const TWILIO_ACCOUNT_SID = process.env.NEXT_PUBLIC_TWILIO_ACCOUNT_SID
-const TWILIO_AUTH_TOKEN = process.env.NEXT_PUBLIC_TWILIO_AUTH_TOKEN
-const TWILIO_PHONE_NUMBER = process.env.NEXT_PUBLIC_TWILIO_PHONE_NUMBER
-const CALLEE_NUMBER = process.env.NEXT_PUBLIC_CALLEE_NUMBER
-
-function buildEmergencyMessage(emergencyData: EmergencyData): string {
-  const serviceMap: Record<string, string> = {
-    police: 'police',
-    fire: 'fire department',
-    ambulance: 'medical assistance',
-  }
-
-  const service =
-    serviceMap[emergencyData.serviceNeeded] || emergencyData.serviceNeeded
-
-  let locationInfo = ''
-  if (emergencyData.manualAddress) {
-    locationInfo += `I am at ${emergencyData.manualAddress}. `
-  }
-
-  return `Hello this is a robot on behalf of someone that cannot speak. They said: I need help with ${service}. ${emergencyData.description}. ${locationInfo}`
-}
-
-async function textToSpeech(text: string): Promise<ArrayBuffer> {
-  if (!ELEVEN_API_KEY) {
-    throw new Error('Missing ElevenLabs API key')
-  }
-
-  console.log('[ElevenLabs TTS] Converting text to speech:', text)
-
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVEN_VOICE_ID}`,
-    {
-      method: 'POST',
-      headers: {
-        'xi-api-key': ELEVEN_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text: text,
-        model_id: 'eleven_multilingual_v2',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.5,
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(
-      `ElevenLabs TTS API error: ${errorData.message || response.statusText}`
-    )
-  }
-
-  const audioBuffer = await response.arrayBuffer()
-  console.log('[ElevenLabs TTS] Audio generated successfully')
-  return audioBuffer
+type CallStatus =
+  | 'connecting'
+  | 'ringing'
+  | 'active'
+  | 'ended'
+  | 'hanging_up'
+  | 'speaking'
+  | 'listening'
+  | 'transcribing'
+
+type CallMessageContent =
+  | { text: string }
+  | { quickReplyId: string }
+  | { location: Coordinates }
+
+// Keys for messages shown before the server has given them an id. Unlike
+// timestamps, two sent in the same millisecond never share one.
+let lastLocalId = 0
+function localMessageId(): string {
+  lastLocalId += 1
+  return `local-${lastLocalId}`
 }
 
-async function makeTwilioCall(audioUrl: string): Promise<string> {
-  if (
-    !TWILIO_ACCOUNT_SID ||
-    !TWILIO_AUTH_TOKEN ||
-    !TWILIO_PHONE_NUMBER ||
-    !CALLEE_NUMBER
-  ) {
-    throw new Error('Missing Twilio environment variables')
-  }
-
-  console.log('[Twilio] Making call to:', CALLEE_NUMBER)
+// Speak a message into the call. The server picks the live media stream or
+// the turn-based <Play>/<Record> fallback.
+async function speakInCall(
+  sessionId: string,
+  clientId: string,
+  content: CallMessageContent
+): Promise<void> {
+  console.log('[Chat] Speaking in call:', content)
 
-  const response = await fetch('/api/twilio/call', {
+  const response = await fetch(`/api/sessions/${sessionId}/messages`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      to: CALLEE_NUMBER,
-      from: TWILIO_PHONE_NUMBER,
-      audioUrl: audioUrl,
-    }),
+    body: JSON.stringify({ ...content, clientId }),
   })
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
     throw new Error(
-      `Twilio API error: ${errorData.message || response.statusText}`
+      `Messages API error: ${errorData.error || response.statusText}`
     )
   }
-
-  const data = await response.json()
-  console.log('[Twilio] Call initiated successfully:', data.callSid)
-  return data.callSid
 }
 
-async function uploadAudioToServer(audioBuffer: ArrayBuffer): Promise<string> {
-  // Convert ArrayBuffer to Blob
-  const audioBlob = new Blob([audioBuffer], { type: 'audio/mpeg' })
-
-  // Create FormData
-  const formData = new FormData()
-  formData.append('audio', audioBlob, 'emergency-message.mp3')
-
-  const response = await fetch('/api/upload-audio', {
+// Text the operator the location and a summary. Returns where it went and
+// exactly what was sent.
+async function sendLocationSms(
+  sessionId: string,
+  clientId: string
+): Promise<{ messageId: string; to: string; text: string }> {
+  const response = await fetch(`/api/sessions/${sessionId}/sms`, {
     method: 'POST',
-    body: formData,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ clientId }),
   })
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
-    throw new Error(
-      `Audio upload error: ${errorData.message || response.statusText}`
-    )
+    throw new Error(`SMS API error: ${errorData.error || response.statusText}`)
   }
 
-  const data = await response.json()
-  console.log('[Upload] Audio uploaded successfully:', data.audioUrl)
-  return data.audioUrl
+  return response.json()
 }
 
-async function transcribeAudio(audioBlob: Blob): Promise<string> {
-  if (!ELEVEN_API_KEY) {
-    throw new Error('Missing ElevenLabs API key')
-  }
-
-  console.log('[ElevenLabs] Transcribing audio...')
-
-  const formData = new FormData()
-  formData.append('audio', audioBlob)
-  formData.append('model_id', 'eleven_english_sts_v2')
-
-  const response = await fetch('https://api.elevenlabs.io/v1/speech-to-text', {
+// Hand the emergency to the server, which builds the message, synthesizes it
+// and dials even if this tab goes away.
+async function startEmergencySession(
+  emergencyData: EmergencyData
+): Promise<{ sessionId: string; emergencyMessage: string }> {
+  const response = await fetch('/api/sessions', {
     method: 'POST',
     headers: {
-      'xi-api-key': ELEVEN_API_KEY,
+      'Content-Type': 'application/json',
     },
-    body: formData,
+    body: JSON.stringify(emergencyData),
   })
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}))
     throw new Error(
-      `ElevenLabs transcription error: ${
-        errorData.message || response.statusText
-      }`
+      `Sessions API error: ${errorData.error || response.statusText}`
     )
   }
 
   const data = await response.json()
-  console.log('[ElevenLabs] Transcription successful:', data.text)
-  return data.text
+  console.log('[Session] Session started:', data.sessionId)
+  return data
+}
+
+// Why the call ended, as reported by Twilio
+const END_REASON_MESSAGES: Record<string, string> = {
+  completed: 'Call ended',
+  busy: 'The emergency line was busy',
+  'no-answer': 'The emergency line did not answer',
+  failed: 'The call could not be connected',
+  canceled: 'The call was canceled',
+}
+
+const STATUS_LABELS: Record<CallStatus, string> = {
+  connecting: 'Connecting...',
+  ringing: 'Ringing...',
+  speaking: 'Speaking...',
+  active: 'Connected',
+  listening: 'Listening...',
+  transcribing: 'Transcribing...',
+  hanging_up: 'Hanging Up...',
+  ended: 'Call Ended',
+}
+
+// Stealth mode says nothing about calls or emergencies, for both the header
+// and the status line
+const STEALTH_LABELS: Record<CallStatus, string> = {
+  connecting: 'Loading...',
+  ringing: 'Waiting...',
+  speaking: 'Sending...',
+  active: 'Online',
+  listening: 'Receiving...',
+  transcribing: 'Receiving...',
+  hanging_up: 'Closing...',
+  ended: 'Closed',
 }
 
-export default function Chat({ emergencyData, onBack }: Props) {
+export default function Chat({
+  emergencyData,
+  stealth,
+  hidden,
+  onHide,
+  onBack,
+}: Props) {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputText, setInputText] = useState('')
-  const [callStatus, setCallStatus] = useState<
-    | 'connecting'
-    | 'ringing'
-    | 'active'
-    | 'ended'
-    | 'hanging_up'
-    | 'speaking'
-    | 'listening'
-    | 'transcribing'
-  >('connecting')
+  const [callStatus, setCallStatus] = useState<CallStatus>('connecting')
   const [error, setError] = useState<string | null>(null)
+  const [sessionId, setSessionId] = useState<string | null>(null)
   const [callSid, setCallSid] = useState<string | null>(null)
+  const [endReason, setEndReason] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
-  const [lastTranscriptionCheck, setLastTranscriptionCheck] =
-    useState<number>(0)
+  const [isSendingSms, setIsSendingSms] = useState(false)
   const [statusMessage, setStatusMessage] = useState<string>('')
 
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
   const isInitializedRef = useRef(false)
+  // Anything from before the last hide stays cleared, even when a reconnect
+  // snapshot repeats it
+  const clearedBeforeRef = useRef(0)
+
+  // People who shared their location keep sharing it: each move past the
+  // threshold is queued for the operator and sent once nothing else is being
+  // spoken. Only the latest unsent position matters.
+  const { coords: watchedCoords, track } = useGeolocation({
+    watch: Boolean(emergencyData.location),
+  })
+  const lastReportedRef = useRef<Coordinates | null>(emergencyData.location)
+  const [pendingMove, setPendingMove] = useState<Coordinates | null>(null)
+  const positions = useMemo(
+    () => (emergencyData.location ? [emergencyData.location, ...track] : []),
+    [emergencyData.location, track]
+  )
 
-  // Poll for call status updates
-  useEffect(() => {
-    if (!callSid || callStatus === 'ended' || callStatus === 'hanging_up')
-      return
-
-    const pollForCallStatus = async () => {
-      try {
-        const response = await fetch(
-          `/api/twilio/call-status?callSid=${callSid}`
-        )
-        if (response.ok) {
-          const data = await response.json()
-          if (data.status && data.status !== callStatus) {
-            console.log('[Chat] Call status updated:', data.status)
-            setCallStatus(data.status as any)
-
-            // If call is now active, start polling for transcriptions
-            if (data.status === 'active') {
-              setLastTranscriptionCheck(Date.now())
-            }
-          }
-        }
-      } catch (error) {
-        console.error('[Chat] Error polling call status:', error)
+  // Status changes, operator transcripts and delivery updates are pushed
+  // by the server instead of polled
+  useSessionEvents(sessionId, {
+    onStatus: (event) => {
+      console.log('[Chat] Session status updated:', event.status)
+      if (event.callSid) {
+        setCallSid(event.callSid)
       }
-    }
-
-    const interval = setInterval(pollForCallStatus, 1000) // Poll every 1 second
-
-    return () => clearInterval(interval)
-  }, [callSid, callStatus])
-
-  // Poll for transcribed responses (more frequent when active)
-  useEffect(() => {
-    if (!callSid || callStatus !== 'active') return
-
-    const pollForTranscriptions = async () => {
-      try {
-        const response = await fetch(
-          `/api/twilio/get-transcriptions?callSid=${callSid}&since=${lastTranscriptionCheck}`
-        )
-        if (response.ok) {
-          const data = await response.json()
-          if (data.transcriptions && data.transcriptions.length > 0) {
-            // Add new transcriptions to chat
-            const newMessages = data.transcriptions.map(
-              (transcription: any) => ({
-                id: Date.now().toString() + Math.random(),
-                text: transcription.text,
-                sender: 'operator' as const,
-                timestamp: new Date(transcription.timestamp),
-              })
-            )
 
-            setMessages((prev) => [...prev, ...newMessages])
-            setLastTranscriptionCheck(Date.now())
-            setStatusMessage('') // Clear status when we get a response
-          }
-        }
-      } catch (error) {
-        console.error('[Chat] Error polling transcriptions:', error)
+      switch (event.status) {
+        case 'starting':
+        case 'synthesizing':
+        case 'dialing':
+          setCallStatus('speaking')
+          break
+        case 'ringing':
+          setCallStatus('ringing')
+          setIsProcessing(false)
+          break
+        case 'active':
+          setCallStatus('active')
+          setIsProcessing(false)
+          break
+        case 'ended':
+          setEndReason(event.endReason)
+          setCallStatus('ended')
+          setIsProcessing(false)
+          break
+        case 'failed':
+          console.error('[Chat] Session failed:', event.error)
+          setError('Failed to start emergency call. Please try again.')
+          setCallStatus('ended')
+          setIsProcessing(false)
+          break
       }
-    }
-
-    const interval = setInterval(pollForTranscriptions, 500) // Poll every 500ms for snappier experience
-
-    return () => clearInterval(interval)
-  }, [callSid, callStatus, lastTranscriptionCheck])
+    },
+    // A snapshot after a reconnect can repeat what we already have
+    onTranscript: (event) => {
+      if (event.timestamp <= clearedBeforeRef.current) return
+      setMessages((prev) =>
+        prev.some((message) => message.id === event.id)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: event.id,
+                text: event.text,
+                sender: 'operator',
+                timestamp: new Date(event.timestamp),
+                note: event.originalText
+                  ? `Original: ${event.originalText}`
+                  : undefined,
+              },
+            ]
+      )
+      setStatusMessage('') // Clear status when we get a response
+    },
+    onMenu: (event) => {
+      if (event.timestamp <= clearedBeforeRef.current) return
+      setMessages((prev) =>
+        prev.some((message) => message.id === event.id)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: event.id,
+                text: `Operator pressed ${event.key} — ${event.label}`,
+                sender: 'system',
+                timestamp: new Date(event.timestamp),
+              },
+            ]
+      )
+    },
+    // The first update for a message we sent carries our key; from then on
+    // the message goes by the server's id
+    onMessage: (event) => {
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === event.id || message.id === event.clientId
+            ? {
+                ...message,
+                id: event.id,
+                deliveryStatus: event.state,
+                note: event.spokenText
+                  ? `Spoken as: ${event.spokenText}`
+                  : message.note,
+              }
+            : message
+        )
+      )
+    },
+  })
 
   // Update status message based on call status
   useEffect(() => {
-    if (callStatus === 'connecting') {
+    if (stealth) {
+      setStatusMessage(STEALTH_LABELS[callStatus])
+    } else if (callStatus === 'connecting') {
       setStatusMessage('Connecting to emergency services...')
     } else if (callStatus === 'ringing') {
       setStatusMessage('Calling emergency services - please wait...')
@@ -300,9 +324,21 @@ export default function Chat({ emergencyData, onBack }: Props) {
     } else if (callStatus === 'hanging_up') {
       setStatusMessage('Ending call...')
     } else if (callStatus === 'ended') {
-      setStatusMessage('Call ended')
+      setStatusMessage(
+        (endReason && END_REASON_MESSAGES[endReason]) || 'Call ended'
+      )
     }
-  }, [callStatus])
+  }, [callStatus, endReason, stealth])
+
+  // Hiding behind the decoy wipes what was on screen. The call goes on, and
+  // anything the operator says meanwhile is there on return.
+  useEffect(() => {
+    if (!hidden) return
+    clearedBeforeRef.current = Date.now()
+    setMessages([])
+    setInputText('')
+    setError(null)
+  }, [hidden])
 
   // Initialize emergency call
   useEffect(() => {
@@ -319,34 +355,25 @@ export default function Chat({ emergencyData, onBack }: Props) {
           emergencyData
         )
 
-        // Build the emergency message
-        const emergencyMessage = buildEmergencyMessage(emergencyData)
+        setIsProcessing(true)
+        setCallStatus('speaking')
+
+        // The server builds, synthesizes and dials from here on
+        const session = await startEmergencySession(emergencyData)
+        const emergencyMessage = session.emergencyMessage
         console.log('[Chat] Emergency message:', emergencyMessage)
 
         // Add the emergency message as the first message
         const initialMessage: Message = {
-          id: Date.now().toString(),
+          id: localMessageId(),
           text: emergencyMessage,
           sender: 'user',
           timestamp: new Date(),
         }
         setMessages([initialMessage])
 
-        // Convert message to speech
-        setIsProcessing(true)
-        setCallStatus('speaking')
-
-        const audioBuffer = await textToSpeech(emergencyMessage)
-
-        // Upload audio to server
-        const audioUrl = await uploadAudioToServer(audioBuffer)
-
-        // Make Twilio call
-        const twilioCallSid = await makeTwilioCall(audioUrl)
-        setCallSid(twilioCallSid)
-
-        setCallStatus('ringing')
-        setIsProcessing(false)
+        // Progress from here on arrives over the session event stream
+        setSessionId(session.sessionId)
       } catch (error) {
         console.error('[Chat] Error initializing call:', error)
         setError('Failed to start emergency call. Please try again.')
@@ -369,61 +396,136 @@ export default function Chat({ emergencyData, onBack }: Props) {
   }, [emergencyData])
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages, statusMessage])
+    messagesEndRef.current?.scrollIntoView({
+      behavior: stealth ? 'auto' : 'smooth',
+    })
+  }, [messages, statusMessage, stealth])
+
+  const quickReplies = useMemo(
+    () =>
+      getQuickReplies(
+        emergencyData.serviceNeeded,
+        emergencyData.browserLanguage
+      ),
+    [emergencyData.serviceNeeded, emergencyData.browserLanguage]
+  )
+
+  // Typed messages, quick replies and location updates go out the same way.
+  // The server frames and translates them before speaking. Resolves to
+  // whether the message was delivered.
+  const sendToCall = useCallback(
+    async (text: string, content: CallMessageContent): Promise<boolean> => {
+      if (!sessionId || callStatus !== 'active' || isProcessing) return false
+
+      const message: Message = {
+        id: localMessageId(),
+        text,
+        sender: 'user',
+        timestamp: new Date(),
+        deliveryStatus: 'sending',
+      }
+
+      setMessages((prev) => [...prev, message])
+      setIsProcessing(true)
+      setCallStatus('speaking')
+
+      // The call may have ended while this was being spoken
+      const doneSpeaking = () =>
+        setCallStatus((status) => (status === 'speaking' ? 'active' : status))
+
+      try {
+        await speakInCall(sessionId, message.id, content)
+
+        doneSpeaking()
+        setIsProcessing(false)
+        return true
+      } catch (error) {
+        console.error('[Chat] Error sending message:', error)
+        setError('Failed to send message')
+        doneSpeaking()
+        setIsProcessing(false)
+        return false
+      }
+    },
+    [sessionId, callStatus, isProcessing]
+  )
+
+  useEffect(() => {
+    const last = lastReportedRef.current
+    if (!watchedCoords || !last) return
+    if (distanceInMeters(last, watchedCoords) >= MOVE_THRESHOLD_METERS) {
+      setPendingMove({
+        latitude: watchedCoords.latitude,
+        longitude: watchedCoords.longitude,
+      })
+    }
+  }, [watchedCoords])
+
+  useEffect(() => {
+    if (!pendingMove || callStatus !== 'active' || isProcessing) return
+
+    const move = pendingMove
+    setPendingMove(null)
+    sendToCall(
+      `Shared my new location: ${move.latitude.toFixed(
+        5
+      )}, ${move.longitude.toFixed(5)}`,
+      { location: move }
+    ).then((delivered) => {
+      // Until the operator has it, the next position fix queues it again
+      if (delivered) lastReportedRef.current = move
+    })
+  }, [pendingMove, callStatus, isProcessing, sendToCall])
 
   const sendMessage = async () => {
-    if (!inputText.trim() || callStatus !== 'active' || isProcessing) return
+    if (
+      !inputText.trim() ||
+      !sessionId ||
+      callStatus !== 'active' ||
+      isProcessing
+    )
+      return
+
+    await sendToCall(inputText, { text: inputText })
+    setInputText('')
+  }
 
-    // Count user messages to determine if this is the first message after the emergency message
-    const userMessageCount = messages.filter(
-      (msg) => msg.sender === 'user'
-    ).length
+  const sendQuickReply = (reply: QuickReply) =>
+    sendToCall(reply.label, { quickReplyId: reply.id })
 
-    // Add prefix for all messages except the first one (emergency message)
-    const messageText =
-      userMessageCount > 0 ? `The person at risk said: ${inputText}` : inputText
+  // Sent alongside the call, so it doesn't wait for speech to finish
+  const sendSms = async () => {
+    if (!sessionId || callStatus === 'ended' || isSendingSms) return
 
     const message: Message = {
-      id: Date.now().toString(),
-      text: inputText, // Keep original text for display
+      id: localMessageId(),
+      text: 'Sent my location and a summary by SMS',
       sender: 'user',
       timestamp: new Date(),
+      deliveryStatus: 'sending',
     }
 
     setMessages((prev) => [...prev, message])
-    setIsProcessing(true)
-    setCallStatus('speaking')
+    setIsSendingSms(true)
 
     try {
-      // Convert message to speech with prefix if needed
-      const audioBuffer = await textToSpeech(messageText)
-
-      // Upload audio to server
-      const audioUrl = await uploadAudioToServer(audioBuffer)
-
-      // Play audio in the call
-      await fetch('/api/twilio/play-audio', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          callSid: callSid,
-          audioUrl: audioUrl,
-        }),
-      })
-
-      setCallStatus('active')
-      setIsProcessing(false)
+      const { messageId, to, text } = await sendLocationSms(
+        sessionId,
+        message.id
+      )
+      setMessages((prev) =>
+        prev.map((entry) =>
+          entry.id === message.id || entry.id === messageId
+            ? { ...entry, id: messageId, note: `To ${to}:\n${text}` }
+            : entry
+        )
+      )
     } catch (error) {
-      console.error('[Chat] Error sending message:', error)
-      setError('Failed to send message')
-      setCallStatus('active')
-      setIsProcessing(false)
+      console.error('[Chat] Error sending SMS:', error)
+      setError('Failed to send SMS')
+    } finally {
+      setIsSendingSms(false)
     }
-
-    setInputText('')
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -444,6 +546,7 @@ export default function Chat({ emergencyData, onBack }: Props) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          sessionId: sessionId,
           callSid: callSid,
         }),
       }).catch(console.error)
@@ -469,6 +572,7 @@ export default function Chat({ emergencyData, onBack }: Props) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          sessionId: sessionId,
           callSid: callSid,
         }),
       }).catch(console.error)
@@ -482,7 +586,10 @@ export default function Chat({ emergencyData, onBack }: Props) {
   return (
     <div className="h-full flex flex-col bg-[#0E1017]">
       {error && (
-        <ErrorBanner message={error} onDismiss={() => setError(null)} />
+        <ErrorBanner
+          message={stealth ? 'Something went wrong' : error}
+          onDismiss={() => setError(null)}
+        />
       )}
 
       {/* Header */}
@@ -502,7 +609,9 @@ export default function Chat({ emergencyData, onBack }: Props) {
           <div className="flex items-center space-x-2">
             <div
               className={`w-2 h-2 rounded-full ${
-                callStatus === 'active'
+                stealth
+                  ? 'bg-slate-600'
+                  : callStatus === 'active'
                   ? 'bg-emerald-500'
                   : callStatus === 'ringing'
                   ? 'bg-yellow-500 animate-pulse'
@@ -518,24 +627,32 @@ export default function Chat({ emergencyData, onBack }: Props) {
               }`}
             />
             <span className="text-sm font-medium text-slate-300">
-              {callStatus === 'connecting' && 'Connecting...'}
-              {callStatus === 'ringing' && 'Ringing...'}
-              {callStatus === 'speaking' && 'Speaking...'}
-              {callStatus === 'active' && 'Connected'}
-              {callStatus === 'listening' && 'Listening...'}
-              {callStatus === 'transcribing' && 'Transcribing...'}
-              {callStatus === 'hanging_up' && 'Hanging Up...'}
-              {callStatus === 'ended' && 'Call Ended'}
+              {(stealth ? STEALTH_LABELS : STATUS_LABELS)[callStatus]}
             </span>
           </div>
 
+          {stealth && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onHide}
+              className="p-2 text-slate-300 hover:text-white hover:bg-[#1E2329]"
+              title="Hide">
+              <EyeOff className="w-4 h-4" />
+            </Button>
+          )}
+
           {callStatus === 'active' && (
             <Button
-              variant="destructive"
+              variant={stealth ? 'ghost' : 'destructive'}
               size="sm"
               onClick={hangUpCall}
-              className="p-2 text-red-300 hover:text-white hover:bg-red-600 border border-red-500"
-              title="Hang up call">
+              className={
+                stealth
+                  ? 'p-2 text-slate-300 hover:text-white hover:bg-[#1E2329]'
+                  : 'p-2 text-red-300 hover:text-white hover:bg-red-600 border border-red-500'
+              }
+              title={stealth ? 'Close' : 'Hang up call'}>
               <PhoneOff className="w-4 h-4" />
             </Button>
           )}
@@ -545,25 +662,44 @@ export default function Chat({ emergencyData, onBack }: Props) {
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4">
         <div className="max-w-md mx-auto space-y-4">
+          {positions.length > 1 && (
+            <LocationDisplay
+              coords={positions[positions.length - 1]}
+              track={positions.slice(0, -1)}
+            />
+          )}
+
           {callStatus === 'connecting' && (
             <div className="text-center py-8">
               <LoaderDots />
               <p className="text-sm text-slate-400 mt-4">
-                {isProcessing
+                {stealth
+                  ? STEALTH_LABELS.connecting
+                  : isProcessing
                   ? 'Processing emergency message...'
                   : 'Connecting to emergency services...'}
               </p>
             </div>
           )}
 
-          {messages.map((message) => (
-            <ChatBubble
-              key={message.id}
-              message={message.text}
-              sender={message.sender}
-              timestamp={message.timestamp}
-            />
-          ))}
+          {messages.map((message) =>
+            message.sender === 'system' ? (
+              <p
+                key={message.id}
+                className="text-center text-xs text-slate-400">
+                {message.text}
+              </p>
+            ) : (
+              <ChatBubble
+                key={message.id}
+                message={message.text}
+                sender={message.sender}
+                timestamp={message.timestamp}
+                deliveryStatus={message.deliveryStatus}
+                note={message.note}
+              />
+            )
+          )}
 
           {/* Status message below last message */}
           {statusMessage && callStatus !== 'connecting' && (
@@ -571,19 +707,19 @@ export default function Chat({ emergencyData, onBack }: Props) {
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               className="flex items-center justify-center space-x-2 py-3 px-4 bg-[#1E2329] rounded-lg border border-[#2A2F38]">
-              {callStatus === 'ringing' && (
+              {!stealth && callStatus === 'ringing' && (
                 <Phone className="w-4 h-4 text-yellow-500 animate-pulse" />
               )}
-              {callStatus === 'speaking' && (
+              {!stealth && callStatus === 'speaking' && (
                 <Volume2 className="w-4 h-4 text-yellow-500 animate-pulse" />
               )}
-              {callStatus === 'listening' && (
+              {!stealth && callStatus === 'listening' && (
                 <Mic className="w-4 h-4 text-blue-500 animate-pulse" />
               )}
-              {callStatus === 'transcribing' && (
+              {!stealth && callStatus === 'transcribing' && (
                 <div className="w-4 h-4 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
               )}
-              {callStatus === 'active' && (
+              {!stealth && callStatus === 'active' && (
                 <div className="w-4 h-4 bg-emerald-500 rounded-full animate-pulse" />
               )}
               <span className="text-sm text-slate-300">{statusMessage}</span>
@@ -600,6 +736,31 @@ export default function Chat({ emergencyData, onBack }: Props) {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           className="bg-[#14181F] border-t border-[#1E2329] p-4">
+          <div className="max-w-md mx-auto flex flex-wrap gap-2 mb-3">
+            <Button
+              onClick={sendSms}
+              disabled={isSendingSms}
+              size="sm"
+              title={
+                stealth
+                  ? undefined
+                  : 'Text your location and a summary to the operator'
+              }
+              className="h-8 px-3 bg-[#0E1017] hover:bg-[#1E2329] text-slate-200 hover:text-white border border-[#1E2329] text-xs">
+              <MapPin className="w-3 h-3 mr-1" />
+              {stealth ? 'Share location' : 'Send location by SMS'}
+            </Button>
+            {quickReplies.map((reply) => (
+              <Button
+                key={reply.id}
+                onClick={() => sendQuickReply(reply)}
+                disabled={isProcessing}
+                size="sm"
+                className="h-8 px-3 bg-[#0E1017] hover:bg-[#1E2329] text-slate-200 hover:text-white border border-[#1E2329] text-xs">
+                {reply.label}
+              </Button>
+            ))}
+          </div>
           <div className="max-w-md mx-auto flex space-x-2">
             <Input
               value={inputText}
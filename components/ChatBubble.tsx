@@ -9,6 +9,14 @@ interface Props {
   sender: 'user' | 'operator'
   timestamp: Date
   isTyping?: boolean
+  deliveryStatus?: 'sending' | 'delivered' | 'failed'
+  note?: string
+}
+
+const DELIVERY_LABELS = {
+  sending: 'Sending…',
+  delivered: 'Delivered',
+  failed: 'Not delivered',
 }
 
 export default function ChatBubble({
@@ -16,6 +24,8 @@ export default function ChatBubble({
   sender,
   timestamp,
   isTyping = false,
+  deliveryStatus,
+  note,
 }: Props) {
   const isUser = sender === 'user'
 
@@ -44,6 +54,14 @@ export default function ChatBubble({
           ) : (
             message
           )}
+          {note && (
+            <p
+              className={`mt-2 text-xs whitespace-pre-wrap ${
+                isUser ? 'text-emerald-100' : 'text-slate-400'
+              }`}>
+              {note}
+            </p>
+          )}
         </div>
 
         {/* Timestamp */}
@@ -52,6 +70,16 @@ export default function ChatBubble({
             <span className="text-xs text-slate-400">
               {format(timestamp, 'HH:mm')}
             </span>
+            {deliveryStatus && (
+              <span
+                className={`text-xs ml-2 ${
+                  deliveryStatus === 'failed'
+                    ? 'text-red-400'
+                    : 'text-slate-500'
+                }`}>
+                {DELIVERY_LABELS[deliveryStatus]}
+              </span>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,130 @@
+'use client'
+
+import { useRef, useState } from 'react'
+
+interface Props {
+  onExit: () => void
+}
+
+// Holding the display this long goes back to the app
+const EXIT_HOLD_MS = 1000
+
+type Operator = '+' | '−' | '×' | '÷'
+
+const KEYS = [
+  ['C', '±', '%', '÷'],
+  ['7', '8', '9', '×'],
+  ['4', '5', '6', '−'],
+  ['1', '2', '3', '+'],
+  ['0', '.', '='],
+]
+
+function calculate(left: number, right: number, operator: Operator): number {
+  switch (operator) {
+    case '+':
+      return left + right
+    case '−':
+      return left - right
+    case '×':
+      return left * right
+    case '÷':
+      return right === 0 ? NaN : left / right
+  }
+}
+
+function formatNumber(value: number): string {
+  if (!isFinite(value)) return 'Error'
+  return String(parseFloat(value.toPrecision(10)))
+}
+
+// A working calculator shown over the app in stealth mode. Everything behind
+// it stays mounted, so the call carries on while it is up.
+export default function DecoyScreen({ onExit }: Props) {
+  const [display, setDisplay] = useState('0')
+  const [stored, setStored] = useState<number | null>(null)
+  const [operator, setOperator] = useState<Operator | null>(null)
+  const [isFresh, setIsFresh] = useState(true)
+  const holdTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const startHold = () => {
+    holdTimerRef.current = setTimeout(onExit, EXIT_HOLD_MS)
+  }
+
+  const cancelHold = () => {
+    if (holdTimerRef.current) clearTimeout(holdTimerRef.current)
+    holdTimerRef.current = null
+  }
+
+  const press = (key: string) => {
+    const current = parseFloat(display)
+
+    if (/^\d$/.test(key)) {
+      setDisplay(isFresh || display === '0' ? key : display + key)
+      setIsFresh(false)
+    } else if (key === '.') {
+      if (isFresh) {
+        setDisplay('0.')
+        setIsFresh(false)
+      } else if (!display.includes('.')) {
+        setDisplay(display + '.')
+      }
+    } else if (key === 'C') {
+      setDisplay('0')
+      setStored(null)
+      setOperator(null)
+      setIsFresh(true)
+    } else if (key === '±') {
+      setDisplay(formatNumber(-current))
+    } else if (key === '%') {
+      setDisplay(formatNumber(current / 100))
+    } else if (key === '=') {
+      if (stored === null || !operator) return
+      setDisplay(formatNumber(calculate(stored, current, operator)))
+      setStored(null)
+      setOperator(null)
+      setIsFresh(true)
+    } else {
+      // Chained operators work through the pending one first
+      const result =
+        stored !== null && operator && !isFresh
+          ? calculate(stored, current, operator)
+          : current
+      setDisplay(formatNumber(result))
+      setStored(result)
+      setOperator(key as Operator)
+      setIsFresh(true)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex flex-col justify-end bg-black p-4 select-none">
+      <div
+        onPointerDown={startHold}
+        onPointerUp={cancelHold}
+        onPointerLeave={cancelHold}
+        onPointerCancel={cancelHold}
+        className="px-2 pb-4 text-right text-6xl font-light text-white truncate">
+        {display}
+      </div>
+      <div className="grid grid-cols-4 gap-3 max-w-md w-full mx-auto">
+        {KEYS.flat().map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => press(key)}
+            className={`h-16 rounded-full text-2xl ${
+              key === '0' ? 'col-span-2' : ''
+            } ${
+              ['÷', '×', '−', '+', '='].includes(key)
+                ? 'bg-amber-600 text-white'
+                : ['C', '±', '%'].includes(key)
+                ? 'bg-neutral-400 text-black'
+                : 'bg-neutral-800 text-white'
+            }`}>
+            {key}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
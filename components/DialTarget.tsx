@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Phone } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { DialOption, PublicRouting } from '@/lib/routing'
+import { getService } from '@/lib/services'
+import type { TriageAnswers } from '@/lib/triage'
+
+interface Props {
+  serviceNeeded: string | null
+  coords: { latitude: number; longitude: number } | null
+  address: string
+  countryCode: string | null
+  triage: TriageAnswers
+  dialOverride: string | null
+  onOverrideChange: (number: string | null) => void
+}
+
+const AUTOMATIC = 'auto'
+
+const LINE_LABELS: Record<DialOption['line'], string> = {
+  general: 'emergency',
+  police: 'police',
+  fire: 'fire',
+  ambulance: 'ambulance',
+}
+
+function lineLabel(target: Pick<DialOption, 'line' | 'service'>): string {
+  const service = target.service ? getService(target.service) : null
+  return service ? service.label : LINE_LABELS[target.line]
+}
+
+function optionValue(option: DialOption): string {
+  return `${option.countryCode}:${option.service || option.line}`
+}
+
+export default function DialTarget({
+  serviceNeeded,
+  coords,
+  address,
+  countryCode,
+  triage,
+  dialOverride,
+  onOverrideChange,
+}: Props) {
+  const [routing, setRouting] = useState<PublicRouting | null>(null)
+  const [options, setOptions] = useState<DialOption[]>([])
+  const [isChanging, setIsChanging] = useState(false)
+
+  useEffect(() => {
+    const params = new URLSearchParams()
+    if (serviceNeeded) params.set('service', serviceNeeded)
+    if (coords) {
+      params.set('lat', coords.latitude.toString())
+      params.set('lng', coords.longitude.toString())
+    }
+    if (address) params.set('address', address)
+    if (countryCode) params.set('country', countryCode)
+    if (Object.keys(triage).length > 0) {
+      params.set('triage', JSON.stringify(triage))
+    }
+    if (dialOverride) params.set('override', dialOverride)
+
+    const controller = new AbortController()
+    fetch(`/api/routing?${params.toString()}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return
+        setRouting(data.routing)
+        setOptions(data.options)
+      })
+      .catch((error) => {
+        if (error.name !== 'AbortError') {
+          console.error('[DialTarget] Error resolving number:', error)
+        }
+      })
+
+    return () => controller.abort()
+  }, [serviceNeeded, coords, address, countryCode, triage, dialOverride])
+
+  if (!routing) return null
+
+  const selectedValue =
+    options.find(
+      (option) =>
+        option.number === dialOverride &&
+        option.countryCode === routing.countryCode
+    ) || options.find((option) => option.number === dialOverride)
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="rounded-lg bg-[#14181F] p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-slate-300">
+          <Phone className="w-4 h-4 text-emerald-500" />
+          <span className="text-sm">
+            Will dial <span className="font-semibold">{routing.number}</span>
+            {routing.countryName && (
+              <span className="text-slate-400">
+                {' '}
+                · {routing.countryName} {lineLabel(routing)}
+              </span>
+            )}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsChanging(!isChanging)}
+          className="text-xs text-slate-400 hover:text-white underline">
+          {isChanging ? 'Done' : 'Change'}
+        </button>
+      </div>
+
+      {routing.testMode && (
+        <p className="text-xs text-amber-400">
+          Test mode: calls are redirected to a test number
+        </p>
+      )}
+
+      {isChanging && (
+        <Select
+          value={selectedValue ? optionValue(selectedValue) : AUTOMATIC}
+          onValueChange={(value) => {
+            if (value === AUTOMATIC) {
+              onOverrideChange(null)
+              return
+            }
+            const option = options.find((o) => optionValue(o) === value)
+            onOverrideChange(option ? option.number : null)
+          }}>
+          <SelectTrigger className="bg-[#0E1017] border-[#1E2329] text-slate-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTOMATIC}>
+              Automatic (based on location)
+            </SelectItem>
+            {options.map((option) => (
+              <SelectItem key={optionValue(option)} value={optionValue(option)}>
+                {option.countryName} {lineLabel(option)} — {option.number}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </motion.div>
+  )
+}
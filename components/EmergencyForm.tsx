@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useGeolocation } from '@/hooks/useGeolocation'
 import { useToastSteps } from '@/hooks/useToastSteps'
@@ -8,63 +8,45 @@ import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
 import LocationDisplay from '@/components/LocationDisplay'
-import {
-  Shield,
-  Flame,
-  Heart,
-  MapPin,
-  AlertTriangle,
-  CheckCircle,
-} from 'lucide-react'
-
-const EMERGENCY_SERVICES = [
-  {
-    id: 'police',
-    label: 'Police',
-    icon: Shield,
-    color: 'bg-blue-500 hover:bg-blue-600 focus:ring-blue-500',
-    description: 'Crime, safety, security',
-  },
-  {
-    id: 'fire',
-    label: 'Fire',
-    icon: Flame,
-    color: 'bg-red-500 hover:bg-red-600 focus:ring-red-500',
-    description: 'Fire, hazmat, rescue',
-  },
-  {
-    id: 'ambulance',
-    label: 'Medical',
-    icon: Heart,
-    color: 'bg-emerald-500 hover:bg-emerald-600 focus:ring-emerald-500',
-    description: 'Medical emergency',
-  },
-] as const
-
-type ServiceType = (typeof EMERGENCY_SERVICES)[number]['id']
-
-interface EmergencyData {
-  serviceNeeded: string
-  description: string
-  location: { latitude: number; longitude: number } | null
-  manualAddress: string | null
-  browserLanguage: string
-  timestamp: string
-}
+import DialTarget from '@/components/DialTarget'
+import { EmergencyData } from '@/lib/types'
+import { getTriageQuestions, TriageAnswers } from '@/lib/triage'
+import { composeEmergencyMessage } from '@/lib/message-composer'
+import { getService, listServices } from '@/lib/services'
+import { SosPreset } from '@/lib/presets'
+import ServiceIcon from '@/components/ServiceIcon'
+import { MapPin, AlertTriangle, CheckCircle, Bookmark } from 'lucide-react'
+
+const PRIMARY_SERVICES = listServices().filter((service) => service.primary)
+const OTHER_SERVICES = listServices().filter((service) => !service.primary)
+
+// Stealth mode keeps the form's wording and colors neutral
+const SELECTED_NEUTRAL = 'bg-slate-600 hover:bg-slate-600'
 
 interface Props {
+  stealth: boolean
+  onStealthChange: (stealth: boolean) => void
   onError: (error: string | null) => void
   onSubmit: (data: EmergencyData) => void
+  onSavePreset: (preset: Omit<SosPreset, 'id'>) => void
 }
 
-export default function EmergencyForm({ onError, onSubmit }: Props) {
-  const [selectedService, setSelectedService] = useState<ServiceType | null>(
-    null
-  )
+export default function EmergencyForm({
+  stealth,
+  onStealthChange,
+  onError,
+  onSubmit,
+  onSavePreset,
+}: Props) {
+  const [selectedService, setSelectedService] = useState<string | null>(null)
+  const [triage, setTriage] = useState<TriageAnswers>({})
   const [description, setDescription] = useState('')
   const [manualAddress, setManualAddress] = useState('')
   const [resolvedAddress, setResolvedAddress] = useState('')
+  const [countryCode, setCountryCode] = useState<string | null>(null)
+  const [dialOverride, setDialOverride] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const {
@@ -75,6 +57,55 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
   } = useGeolocation()
   const toastSteps = useToastSteps()
 
+  const triageQuestions = useMemo(
+    () => (selectedService ? getTriageQuestions(selectedService) : []),
+    [selectedService]
+  )
+
+  const selectService = (service: string) => {
+    if (service !== selectedService) setTriage({})
+    setSelectedService(service)
+  }
+
+  // Tapping the chosen answer again clears it
+  const answerTriage = (questionId: string, answerId: string) => {
+    setTriage((prev) => {
+      const next = { ...prev }
+      if (next[questionId] === answerId) {
+        delete next[questionId]
+      } else {
+        next[questionId] = answerId
+      }
+      return next
+    })
+  }
+
+  // Exactly what the operator will hear first, before translation
+  const preview = useMemo(
+    () =>
+      selectedService && description.trim()
+        ? composeEmergencyMessage({
+            serviceNeeded: selectedService,
+            description: description.trim(),
+            location: coords
+              ? { latitude: coords.latitude, longitude: coords.longitude }
+              : null,
+            manualAddress: manualAddress.trim() || resolvedAddress || null,
+            triage,
+            browserLanguage: navigator.language,
+            timestamp: new Date().toISOString(),
+          })
+        : null,
+    [
+      selectedService,
+      description,
+      coords,
+      manualAddress,
+      resolvedAddress,
+      triage,
+    ]
+  )
+
   const maxChars = 280
   const remainingChars = maxChars - description.length
 
@@ -91,16 +122,44 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
     }
   }
 
+  // Everything but the live location, which a preset takes when launched
+  const handleSavePreset = () => {
+    const service = selectedService ? getService(selectedService) : null
+    if (!service || description.trim().length < 10) {
+      onError(
+        stealth
+          ? 'Choose an option and add a note first'
+          : 'Choose a service and describe the emergency to save a preset'
+      )
+      return
+    }
+
+    onSavePreset({
+      name: service.label,
+      serviceNeeded: service.id,
+      description: description.trim(),
+      homeAddress: manualAddress.trim() || resolvedAddress || null,
+      triage: Object.keys(triage).length > 0 ? triage : null,
+    })
+    toastSteps.success(stealth ? 'Saved' : 'Saved as a one-tap preset')
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
     if (!selectedService) {
-      onError('Please select an emergency service')
+      onError(
+        stealth ? 'Choose an option' : 'Please select an emergency service'
+      )
       return
     }
 
     if (description.trim().length < 10) {
-      onError('Please provide more details about your emergency')
+      onError(
+        stealth
+          ? 'Add a few more words'
+          : 'Please provide more details about your emergency'
+      )
       return
     }
 
@@ -124,6 +183,9 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
             }
           : null,
         manualAddress: manualAddress.trim() || resolvedAddress || null,
+        countryCode,
+        dialOverride,
+        triage: Object.keys(triage).length > 0 ? triage : null,
         browserLanguage: navigator.language,
         timestamp: new Date().toISOString(),
       }
@@ -132,9 +194,15 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
       onSubmit(payload)
     } catch (error) {
       console.error('Emergency request failed:', error)
-      toastSteps.error('Failed to prepare emergency request. Please try again.')
+      toastSteps.error(
+        stealth
+          ? 'Something went wrong'
+          : 'Failed to prepare emergency request. Please try again.'
+      )
       onError(
-        'Unable to prepare emergency request. Please try again or call 911 directly.'
+        stealth
+          ? 'Something went wrong. Please try again.'
+          : 'Unable to prepare emergency request. Please try again or call 911 directly.'
       )
     } finally {
       setIsSubmitting(false)
@@ -146,11 +214,10 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
       {/* Service Selection */}
       <div>
         <label className="block text-sm font-medium text-slate-300 mb-3">
-          Emergency Service Needed
+          {stealth ? 'Choose one' : 'Emergency Service Needed'}
         </label>
         <div className="grid grid-cols-3 gap-3">
-          {EMERGENCY_SERVICES.map((service, index) => {
-            const Icon = service.icon
+          {PRIMARY_SERVICES.map((service, index) => {
             const isSelected = selectedService === service.id
 
             return (
@@ -160,19 +227,22 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
                 initial={{ opacity: 0, scale: 0.8 }}
                 animate={{ opacity: 1, scale: 1 }}
                 transition={{ delay: index * 0.1 }}
-                onClick={() => setSelectedService(service.id)}
+                onClick={() => selectService(service.id)}
                 className={`
                   aspect-square relative rounded-xl transition-all duration-200 
                   border-2 focus:outline-none 
                   flex flex-col items-center justify-center space-y-2 p-2
                   ${
                     isSelected
-                      ? `${service.color} text-white border-transparent`
+                      ? `${
+                          stealth ? SELECTED_NEUTRAL : service.color
+                        } text-white border-transparent`
                       : 'bg-[#14181F] hover:bg-[#14181F] border-[#14181F] text-slate-300 hover:border-[#14181F]'
                   }
                 `}
                 aria-label={`Select ${service.label} emergency service`}>
-                <Icon
+                <ServiceIcon
+                  icon={service.icon}
                   className={`w-8 h-8 ${
                     isSelected ? 'text-white' : 'text-slate-400'
                   }`}
@@ -193,20 +263,106 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
             )
           })}
         </div>
+        {OTHER_SERVICES.length > 0 && (
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            {OTHER_SERVICES.map((service) => {
+              const isSelected = selectedService === service.id
+
+              return (
+                <button
+                  key={service.id}
+                  type="button"
+                  onClick={() => selectService(service.id)}
+                  aria-pressed={isSelected}
+                  className={`
+                    rounded-lg border-2 px-3 py-2 text-left transition-colors
+                    focus:outline-none flex items-center space-x-2
+                    ${
+                      isSelected
+                        ? `${
+                            stealth ? SELECTED_NEUTRAL : service.color
+                          } text-white border-transparent`
+                        : 'bg-[#14181F] border-[#14181F] text-slate-300'
+                    }
+                  `}
+                  aria-label={`Select ${service.label} emergency service`}>
+                  <ServiceIcon
+                    icon={service.icon}
+                    className={`w-5 h-5 shrink-0 ${
+                      isSelected ? 'text-white' : 'text-slate-400'
+                    }`}
+                  />
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">
+                      {service.label}
+                    </div>
+                    <div
+                      className={`text-xs truncate ${
+                        isSelected ? 'text-white/80' : 'text-slate-400'
+                      }`}>
+                      {service.description}
+                    </div>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        )}
       </div>
 
+      {/* Triage: optional tap answers to what dispatchers always ask */}
+      {triageQuestions.length > 0 && (
+        <div className="space-y-3">
+          {triageQuestions.map((question) => (
+            <div key={question.id}>
+              <p className="text-sm font-medium text-slate-300 mb-2">
+                {question.question}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {question.answers.map((answer) => {
+                  const isChosen = triage[question.id] === answer.id
+                  return (
+                    <Button
+                      key={answer.id}
+                      type="button"
+                      size="sm"
+                      onClick={() => answerTriage(question.id, answer.id)}
+                      aria-pressed={isChosen}
+                      className={`h-8 px-3 text-xs border ${
+                        isChosen
+                          ? `${
+                              stealth
+                                ? SELECTED_NEUTRAL
+                                : 'bg-emerald-600 hover:bg-emerald-600'
+                            } text-white border-transparent`
+                          : 'bg-[#14181F] hover:bg-[#1E2329] text-slate-300 border-[#1E2329]'
+                      }`}>
+                      {answer.label}
+                    </Button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Description */}
       <div>
         <label
           htmlFor="description"
           className="block text-sm font-medium text-slate-300 mb-2">
-          Describe Your Emergency
+          {stealth ? 'Notes' : 'Describe Your Emergency'}
         </label>
         <Textarea
           id="description"
           value={description}
           onChange={(e) => setDescription(e.target.value)}
-          placeholder="Please provide details about your emergency situation..."
+          placeholder={
+            stealth
+              ? 'Type here...'
+              : 'Please provide details about your emergency situation...'
+          }
           maxLength={maxChars}
           rows={4}
           className="resize-none bg-[#14181F] border-[#14181F] ring-0 text-slate-100 placeholder-slate-500"
@@ -232,6 +388,7 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
             <LocationDisplay
               coords={coords}
               onAddressChange={setResolvedAddress}
+              onCountryChange={setCountryCode}
             />
           ) : (
             <motion.div
@@ -247,19 +404,19 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
                 className={`
                   w-full h-12 justify-start space-x-2 mb-3 transition-all duration-300
                   ${
-                    isAllowed === true
+                    isAllowed === true || stealth
                       ? 'border-[#14181F] text-slate-200 hover:bg-[#14181F] hover:border-[#14181F] bg-[#14181F]'
                       : 'border-orange-500 bg-orange-500/10 hover:bg-orange-500/20 text-orange-400 hover:border-orange-400 relative overflow-hidden'
                   }
                 `}>
                 {/* Pulsing background effect when not shared */}
-                {isAllowed !== true && (
+                {isAllowed !== true && !stealth && (
                   <div className="absolute inset-0 bg-orange-500/20 animate-pulse rounded-md" />
                 )}
 
                 <MapPin
                   className={`w-4 h-4 relative z-10 ${
-                    isAllowed !== true ? 'ml-3' : ''
+                    isAllowed !== true && !stealth ? 'ml-3' : ''
                   }`}
                 />
                 <span className="relative z-10 font-medium">
@@ -298,6 +455,59 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
         )}
       </div>
 
+      {/* Emergency number that will be dialed; stealth mode doesn't show it */}
+      {!stealth && (coords || manualAddress.trim()) && (
+        <DialTarget
+          serviceNeeded={selectedService}
+          coords={coords}
+          address={manualAddress.trim() || resolvedAddress}
+          countryCode={countryCode}
+          triage={triage}
+          dialOverride={dialOverride}
+          onOverrideChange={setDialOverride}
+        />
+      )}
+
+      {/* Preview of the spoken message */}
+      {preview && !stealth && (
+        <div className="rounded-lg bg-[#14181F] border border-[#1E2329] p-3 space-y-1">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span className="font-medium text-slate-300">
+              The operator will hear
+            </span>
+            <span>about {Math.round(preview.estimatedSeconds)} s</span>
+          </div>
+          <p className="text-sm text-slate-200 leading-relaxed">
+            {preview.text}
+          </p>
+          {preview.sections.some((section) => section.shortened) && (
+            <p className="text-xs text-amber-400">
+              Shortened to about {preview.targetSeconds} seconds. The operator
+              can still get your full description from the call menu.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Stealth mode */}
+      <div className="flex items-center justify-between rounded-lg bg-[#14181F] p-3">
+        <label htmlFor="stealth" className="text-sm text-slate-300">
+          <span className="block font-medium">
+            {stealth ? 'Dark screen' : 'Stealth mode'}
+          </span>
+          {!stealth && (
+            <span className="block text-xs text-slate-400">
+              Dark, still screen. Press Esc or tap with two fingers to hide it.
+            </span>
+          )}
+        </label>
+        <Switch
+          id="stealth"
+          checked={stealth}
+          onCheckedChange={onStealthChange}
+        />
+      </div>
+
       {/* Submit Button */}
       <Button
         type="submit"
@@ -315,11 +525,21 @@ export default function EmergencyForm({ onError, onSubmit }: Props) {
           </div>
         ) : (
           <div className="flex items-center space-x-2">
-            <AlertTriangle className="w-5 h-5" />
-            <span>Request Emergency Help</span>
+            {!stealth && <AlertTriangle className="w-5 h-5" />}
+            <span>{stealth ? 'Continue' : 'Request Emergency Help'}</span>
           </div>
         )}
       </Button>
+
+      <Button
+        type="button"
+        variant="ghost"
+        onClick={handleSavePreset}
+        disabled={!selectedService || description.trim().length < 10}
+        className="w-full text-sm text-slate-400 hover:text-white hover:bg-[#14181F]">
+        <Bookmark className="w-4 h-4 mr-2" />
+        {stealth ? 'Save as shortcut' : 'Save as one-tap preset'}
+      </Button>
     </form>
   )
 }
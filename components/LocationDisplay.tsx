@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { MapPin, Loader2 } from 'lucide-react'
 import dynamic from 'next/dynamic'
 import L from 'leaflet'
+import { Coordinates } from '@/lib/geo'
 
 // Fix for default marker icons in Next.js
 delete (L.Icon.Default.prototype as any)._getIconUrl
@@ -30,10 +31,17 @@ const Marker = dynamic(
   () => import('react-leaflet').then((mod) => mod.Marker),
   { ssr: false }
 )
+const Polyline = dynamic(
+  () => import('react-leaflet').then((mod) => mod.Polyline),
+  { ssr: false }
+)
 
 interface LocationDisplayProps {
-  coords: { latitude: number; longitude: number } | null
-  onAddressChange: (address: string) => void
+  coords: Coordinates | null
+  // Earlier positions, oldest first, drawn as a line up to coords
+  track?: Coordinates[]
+  onAddressChange?: (address: string) => void
+  onCountryChange?: (countryCode: string | null) => void
 }
 
 interface AddressData {
@@ -46,7 +54,9 @@ interface AddressData {
 
 export default function LocationDisplay({
   coords,
+  track = [],
   onAddressChange,
+  onCountryChange,
 }: LocationDisplayProps) {
   const [address, setAddress] = useState<AddressData | null>(null)
   const [isLoading, setIsLoading] = useState(false)
@@ -96,7 +106,9 @@ export default function LocationDisplay({
       }
 
       setAddress(addressData)
-      onAddressChange(shortAddress) // Pass the shorter address format
+      onAddressChange?.(shortAddress) // Pass the shorter address format
+      // Used to pick the right emergency number for this country
+      onCountryChange?.(data.address?.country_code?.toUpperCase() || null)
     } catch (error) {
       console.error('Error fetching address:', error)
       // Fallback to coordinates if geocoding fails
@@ -110,7 +122,7 @@ export default function LocationDisplay({
         zip: 'Unknown',
         fullAddress: fallbackAddress,
       })
-      onAddressChange(fallbackAddress)
+      onAddressChange?.(fallbackAddress)
     } finally {
       setIsLoading(false)
     }
@@ -127,7 +139,9 @@ export default function LocationDisplay({
       <div className="flex">
         {/* Map Section */}
         <div className="w-32 h-24 relative">
+          {/* The center is only read on mount, so a move remounts the map */}
           <MapContainer
+            key={`${coords.latitude},${coords.longitude}`}
             center={[coords.latitude, coords.longitude]}
             zoom={15}
             style={{ height: '100%', width: '100%' }}
@@ -138,6 +152,18 @@ export default function LocationDisplay({
               url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
               attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             />
+            {track.length > 0 && (
+              <Polyline
+                positions={[
+                  ...track.map((point): [number, number] => [
+                    point.latitude,
+                    point.longitude,
+                  ]),
+                  [coords.latitude, coords.longitude],
+                ]}
+                pathOptions={{ color: '#10b981', weight: 3 }}
+              />
+            )}
             <Marker position={[coords.latitude, coords.longitude]} />
           </MapContainer>
         </div>
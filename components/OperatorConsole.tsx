@@ -0,0 +1,316 @@
+'use client'
+
+import { FormEvent, useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  Headphones,
+  MessageSquare,
+  Phone,
+  PhoneOff,
+  PhoneMissed,
+  Send,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface HeardMessage {
+  audioUrl: string
+  text: string | null
+  at: number
+}
+
+interface OperatorReply {
+  id: string
+  text: string
+  at: number
+}
+
+interface ReceivedText {
+  id: string
+  text: string
+  at: number
+}
+
+interface SimulatedCall {
+  callSid: string
+  to: string
+  twilioStatus: string
+  createdAt: number
+  sessionId: string | null
+  heard: HeardMessage[]
+  replies: OperatorReply[]
+  texts: ReceivedText[]
+}
+
+interface SpeechCacheStats {
+  hits: number
+  misses: number
+  evictions: number
+}
+
+type OperatorAction = 'answer' | 'no-answer' | 'busy' | 'hangup' | 'reply'
+
+const POLL_INTERVAL_MS = 1000
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  initiated: 'Dialing',
+  ringing: 'Ringing',
+  'in-progress': 'On call',
+  completed: 'Hung up',
+  busy: 'Busy',
+  'no-answer': 'No answer',
+  failed: 'Failed',
+  canceled: 'Canceled',
+}
+
+function CallCard({
+  call,
+  onAction,
+}: {
+  call: SimulatedCall
+  onAction: (action: OperatorAction, text?: string) => Promise<boolean>
+}) {
+  const [reply, setReply] = useState('')
+  const isRinging = ['queued', 'initiated', 'ringing'].includes(
+    call.twilioStatus
+  )
+  const isActive = call.twilioStatus === 'in-progress'
+
+  // Everything on the line in order: what was played, what was "said" and
+  // the texts the caller sent alongside
+  const timeline = [
+    ...call.heard.map((message) => ({ kind: 'heard' as const, ...message })),
+    ...call.replies.map((message) => ({ kind: 'reply' as const, ...message })),
+    ...call.texts.map((message) => ({ kind: 'text' as const, ...message })),
+  ].sort((a, b) => a.at - b.at)
+
+  const handleReply = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!reply.trim()) return
+    if (await onAction('reply', reply)) {
+      setReply('')
+    }
+  }
+
+  return (
+    <div className="bg-[#14181F] border border-[#1E2329] rounded-lg">
+      <div className="flex items-center justify-between p-4 border-b border-[#1E2329]">
+        <div>
+          <p className="text-sm font-medium text-slate-100">
+            Call to {call.to}
+          </p>
+          <p className="text-xs text-slate-400">
+            {call.callSid} · {format(new Date(call.createdAt), 'HH:mm:ss')}
+            {!call.sessionId && ' · no session'}
+          </p>
+        </div>
+        <span
+          className={`text-xs font-medium px-2 py-1 rounded ${
+            isActive
+              ? 'bg-emerald-600 text-white'
+              : isRinging
+              ? 'bg-yellow-500 text-black animate-pulse'
+              : 'bg-[#1E2329] text-slate-300'
+          }`}>
+          {STATUS_LABELS[call.twilioStatus] || call.twilioStatus}
+        </span>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {timeline.length === 0 && (
+          <p className="text-sm text-slate-500">Nothing on the line yet.</p>
+        )}
+        {timeline.map((entry) =>
+          entry.kind === 'heard' ? (
+            <div
+              key={`heard-${entry.at}-${entry.audioUrl}`}
+              className="space-y-1">
+              <p className="text-xs text-slate-400 flex items-center gap-1">
+                <Headphones className="w-3 h-3" />
+                Caller · {format(new Date(entry.at), 'HH:mm:ss')}
+              </p>
+              <p className="text-sm text-slate-100">
+                {entry.text || (
+                  <span className="text-slate-500">(message text expired)</span>
+                )}
+              </p>
+              <audio
+                controls
+                preload="none"
+                src={entry.audioUrl}
+                className="w-full h-8"
+              />
+            </div>
+          ) : entry.kind === 'text' ? (
+            <div key={entry.id} className="space-y-1">
+              <p className="text-xs text-slate-400 flex items-center gap-1">
+                <MessageSquare className="w-3 h-3" />
+                SMS from caller · {format(new Date(entry.at), 'HH:mm:ss')}
+              </p>
+              <p className="text-sm text-slate-100 whitespace-pre-wrap break-words">
+                {entry.text}
+              </p>
+            </div>
+          ) : (
+            <div key={entry.id} className="text-right space-y-1">
+              <p className="text-xs text-slate-400">
+                You · {format(new Date(entry.at), 'HH:mm:ss')}
+              </p>
+              <p className="text-sm text-emerald-300">{entry.text}</p>
+            </div>
+          )
+        )}
+      </div>
+
+      <div className="p-4 border-t border-[#1E2329] space-y-3">
+        {isRinging && (
+          <div className="flex gap-2">
+            <Button
+              onClick={() => onAction('answer')}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white">
+              <Phone className="w-4 h-4 mr-2" />
+              Answer
+            </Button>
+            <Button
+              onClick={() => onAction('no-answer')}
+              className="flex-1 bg-[#1E2329] hover:bg-[#2A2F38] text-slate-200">
+              <PhoneMissed className="w-4 h-4 mr-2" />
+              Let it ring out
+            </Button>
+            <Button
+              onClick={() => onAction('busy')}
+              className="flex-1 bg-[#1E2329] hover:bg-[#2A2F38] text-slate-200">
+              Busy
+            </Button>
+          </div>
+        )}
+
+        {isActive && (
+          <>
+            <form onSubmit={handleReply} className="flex gap-2">
+              <Input
+                value={reply}
+                onChange={(event) => setReply(event.target.value)}
+                placeholder="Say something to the caller..."
+                className="flex-1 bg-[#0E1017] border-[#1E2329] text-slate-100 placeholder-slate-500"
+              />
+              <Button
+                type="submit"
+                disabled={!reply.trim()}
+                className="px-3 bg-[#14181F] hover:bg-[#1E2329] text-slate-300 border border-[#1E2329]">
+                <Send className="w-4 h-4" />
+              </Button>
+            </form>
+            <Button
+              onClick={() => onAction('hangup')}
+              className="w-full bg-red-600 hover:bg-red-500 text-white">
+              <PhoneOff className="w-4 h-4 mr-2" />
+              Hang up
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Stands in for the emergency operator on mock calls: shows what the caller
+// sent and plays it back, sends replies that arrive in the chat as
+// transcripts, and rings, declines or hangs up calls.
+export default function OperatorConsole() {
+  const [calls, setCalls] = useState<SimulatedCall[]>([])
+  const [speechCache, setSpeechCache] = useState<SpeechCacheStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCalls = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dev/operator', { cache: 'no-store' })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to load calls')
+        return
+      }
+      setCalls(data.calls)
+      setSpeechCache(data.speechCache)
+      setError(null)
+    } catch (error) {
+      console.error('[Operator Console] Error loading calls:', error)
+      setError('Failed to load calls')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCalls()
+    const interval = setInterval(loadCalls, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [loadCalls])
+
+  const sendAction = async (
+    callSid: string,
+    action: OperatorAction,
+    text?: string
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/dev/operator', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ callSid, action, text }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Action failed')
+        return false
+      }
+      await loadCalls()
+      return true
+    } catch (error) {
+      console.error('[Operator Console] Error sending action:', error)
+      setError('Action failed')
+      return false
+    }
+  }
+
+  return (
+    <div className="min-h-full bg-[#0E1017] p-4">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-100">
+            Operator simulator
+          </h1>
+          <p className="text-sm text-slate-400">
+            Acts as the emergency line for calls placed with
+            TELEPHONY_PROVIDER=mock. Set MOCK_CALL_OUTCOME=manual to answer
+            every call yourself.
+          </p>
+          {speechCache && (
+            <p className="text-xs text-slate-500 mt-1">
+              TTS cache: {speechCache.hits} hits, {speechCache.misses} misses,{' '}
+              {speechCache.evictions} evictions
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg border border-red-500 bg-red-950 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        {calls.length === 0 && !error && (
+          <p className="text-sm text-slate-500">
+            No calls yet. Start an emergency session in another tab.
+          </p>
+        )}
+
+        {calls.map((call) => (
+          <CallCard
+            key={call.callSid}
+            call={call}
+            onAction={(action, text) => sendAction(call.callSid, action, text)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import {
+  Shield,
+  ShieldAlert,
+  Siren,
+  Flame,
+  Heart,
+  HeartHandshake,
+  Ambulance,
+  Stethoscope,
+  Pill,
+  Anchor,
+  LifeBuoy,
+  Waves,
+  Mountain,
+  Snowflake,
+  TreePine,
+  Fuel,
+  Zap,
+  Biohazard,
+  Wind,
+  House,
+  Car,
+  Baby,
+  Dog,
+  Phone,
+  AlertTriangle,
+  type LucideIcon,
+} from 'lucide-react'
+import type { ServiceIconName } from '@/lib/services'
+
+interface Props {
+  // A lucide icon name from config/services.json
+  icon: string
+  className?: string
+}
+
+// One icon per name lib/services.ts allows; anything else shows AlertTriangle
+const SERVICE_ICONS: Record<ServiceIconName, LucideIcon> = {
+  shield: Shield,
+  'shield-alert': ShieldAlert,
+  siren: Siren,
+  flame: Flame,
+  heart: Heart,
+  'heart-handshake': HeartHandshake,
+  ambulance: Ambulance,
+  stethoscope: Stethoscope,
+  pill: Pill,
+  anchor: Anchor,
+  'life-buoy': LifeBuoy,
+  waves: Waves,
+  mountain: Mountain,
+  snowflake: Snowflake,
+  'tree-pine': TreePine,
+  fuel: Fuel,
+  zap: Zap,
+  biohazard: Biohazard,
+  wind: Wind,
+  house: House,
+  car: Car,
+  baby: Baby,
+  dog: Dog,
+  phone: Phone,
+}
+
+export default function ServiceIcon({ icon, className }: Props) {
+  const Icon = SERVICE_ICONS[icon as ServiceIconName] || AlertTriangle
+  return <Icon className={className} />
+}
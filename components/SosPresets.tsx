@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import ServiceIcon from '@/components/ServiceIcon'
+import { useGeolocation } from '@/hooks/useGeolocation'
+import { EmergencyData } from '@/lib/types'
+import { Coordinates, countryCodeAt } from '@/lib/geo'
+import { SosPreset } from '@/lib/presets'
+import { getService } from '@/lib/services'
+
+interface Props {
+  presets: SosPreset[]
+  stealth: boolean
+  onLaunch: (data: EmergencyData) => void
+  onDelete: (id: string) => void
+  onError: (error: string | null) => void
+}
+
+// Long enough to cancel a mistaken tap, short enough not to matter
+const COUNTDOWN_SECONDS = 5
+
+// Where a launch takes place, looked up afresh for every tap
+interface LaunchFix {
+  location: Coordinates | null
+  countryCode: string | null
+}
+
+// Saved presets as one-tap buttons. A tap asks for a fresh position and the
+// country it is in, and counts down; the emergency starts once the countdown
+// is over and the position has arrived or failed. A position from an earlier
+// tap is never reused. The home address is only sent when there is no
+// position, since the person may not be at home, and the person is told.
+export default function SosPresets({
+  presets,
+  stealth,
+  onLaunch,
+  onDelete,
+  onError,
+}: Props) {
+  const [launching, setLaunching] = useState<SosPreset | null>(null)
+  const [remaining, setRemaining] = useState(0)
+  // Null until this tap's position has arrived or failed
+  const [fix, setFix] = useState<LaunchFix | null>(null)
+  // Only the latest tap's location request may end the wait
+  const attemptRef = useRef(0)
+
+  const { request: requestLocation } = useGeolocation()
+
+  const locate = async (): Promise<LaunchFix> => {
+    try {
+      const coords = await requestLocation()
+      const location = {
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+      }
+      return { location, countryCode: await countryCodeAt(location) }
+    } catch (error) {
+      console.error('[Presets] Location failed:', error)
+      return { location: null, countryCode: null }
+    }
+  }
+
+  const launch = (preset: SosPreset) => {
+    onError(null)
+    setLaunching(preset)
+    setRemaining(COUNTDOWN_SECONDS)
+    setFix(null)
+    const attempt = ++attemptRef.current
+    locate().then((result) => {
+      if (attempt === attemptRef.current) setFix(result)
+    })
+  }
+
+  useEffect(() => {
+    if (!launching || remaining <= 0) return
+    const timer = setTimeout(() => setRemaining((prev) => prev - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [launching, remaining])
+
+  useEffect(() => {
+    if (!launching || remaining > 0 || !fix) return
+
+    setLaunching(null)
+    const { location, countryCode } = fix
+    if (!location && !launching.homeAddress) {
+      onError(
+        'Unable to get your location, and this preset has no home address. Please use the form.'
+      )
+      return
+    }
+
+    onLaunch({
+      serviceNeeded: launching.serviceNeeded,
+      description: launching.description,
+      location,
+      manualAddress: location ? null : launching.homeAddress,
+      countryCode,
+      triage: launching.triage,
+      browserLanguage: navigator.language,
+      timestamp: new Date().toISOString(),
+    })
+    if (!location) {
+      onError(
+        'Unable to get your current location, so your home address was sent instead.'
+      )
+    }
+  }, [launching, remaining, fix, onLaunch, onError])
+
+  if (presets.length === 0) return null
+
+  if (launching) {
+    const label = getService(launching.serviceNeeded)?.label
+    return (
+      <div className="rounded-xl bg-[#14181F] p-4 mb-6 text-center space-y-3">
+        <p className="text-sm text-slate-300">
+          {remaining > 0
+            ? stealth
+              ? `Starting in ${remaining}...`
+              : `Calling ${label} in ${remaining}...`
+            : 'Getting your location...'}
+        </p>
+        <p className="text-5xl font-semibold text-white">{remaining}</p>
+        <Button
+          type="button"
+          onClick={() => setLaunching(null)}
+          className="w-full h-12 bg-[#1E2329] hover:bg-[#2A2F38] text-white">
+          Cancel
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-6">
+      <p className="text-sm font-medium text-slate-300 mb-3">
+        {stealth ? 'Shortcuts' : 'One-tap SOS'}
+      </p>
+      <div className="space-y-2">
+        {presets.map((preset) => {
+          const service = getService(preset.serviceNeeded)
+          return (
+            <div key={preset.id} className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={() => launch(preset)}
+                className="flex-1 min-w-0 flex items-center space-x-3 rounded-lg bg-[#14181F] hover:bg-[#1E2329] p-3 text-left">
+                <ServiceIcon
+                  icon={service?.icon || ''}
+                  className="w-6 h-6 shrink-0 text-slate-300"
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-slate-100">
+                    {preset.name}
+                  </div>
+                  <div className="text-xs text-slate-400 truncate">
+                    {preset.description}
+                  </div>
+                </div>
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(preset.id)}
+                className="p-2 text-slate-500 hover:text-white hover:bg-[#1E2329]"
+                aria-label={`Delete preset ${preset.name}`}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
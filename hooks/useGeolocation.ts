@@ -1,22 +1,51 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import { distanceInMeters, MOVE_THRESHOLD_METERS } from '@/lib/geo';
 
 interface GeolocationState {
   coords: GeolocationCoordinates | null;
   error: GeolocationPositionError | null;
   isAllowed: boolean | null;
+  // Positions seen while watching, one per move of at least minDistance
+  track: GeolocationCoordinates[];
+}
+
+interface UseGeolocationOptions {
+  // Keep following the position with watchPosition instead of a single fix
+  watch?: boolean;
+  // Metres the person must move before coords and track change
+  minDistance?: number;
 }
 
 interface UseGeolocationReturn extends GeolocationState {
-  request: () => Promise<void>;
+  // A fresh position; rejects rather than fall back to an older one
+  request: () => Promise<GeolocationCoordinates>;
 }
 
-export function useGeolocation(): UseGeolocationReturn {
+// Fresh fixes only: a cached position may be from somewhere else entirely,
+// and while watching it would hide a move
+const REQUEST_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 0,
+};
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 20000,
+  maximumAge: 0,
+};
+
+export function useGeolocation({
+  watch = false,
+  minDistance = MOVE_THRESHOLD_METERS,
+}: UseGeolocationOptions = {}): UseGeolocationReturn {
   const [state, setState] = useState<GeolocationState>({
     coords: null,
     error: null,
     isAllowed: null,
+    track: [],
   });
 
   const request = useCallback(async () => {
@@ -26,37 +55,67 @@ export function useGeolocation(): UseGeolocationReturn {
       throw error;
     }
 
-    return new Promise<void>((resolve, reject) => {
-      const options: PositionOptions = {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 300000, // 5 minutes
-      };
-
+    return new Promise<GeolocationCoordinates>((resolve, reject) => {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setState({
+          setState(prev => ({
             coords: position.coords,
             error: null,
             isAllowed: true,
-          });
-          resolve();
+            track: [...prev.track, position.coords],
+          }));
+          resolve(position.coords);
         },
         (error) => {
           setState(prev => ({
             ...prev,
+            coords: null,
             error,
             isAllowed: false,
           }));
           reject(error);
         },
-        options
+        REQUEST_OPTIONS
       );
     });
   }, []);
 
+  // Small movements and GPS jitter are dropped, so coords only changes
+  // once the person is at least minDistance from the last kept position
+  useEffect(() => {
+    if (!watch || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setState(prev => {
+          const last = prev.track[prev.track.length - 1];
+          if (last && distanceInMeters(last, position.coords) < minDistance) {
+            return prev;
+          }
+          return {
+            coords: position.coords,
+            error: null,
+            isAllowed: true,
+            track: [...prev.track, position.coords],
+          };
+        });
+      },
+      (error) => {
+        // The watch carries on after errors; only a denial revokes access
+        setState(prev => ({
+          ...prev,
+          error,
+          isAllowed: error.code === error.PERMISSION_DENIED ? false : prev.isAllowed,
+        }));
+      },
+      WATCH_OPTIONS
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [watch, minDistance]);
+
   return {
     ...state,
     request,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Calls onHide on Escape or a tap with two or more fingers. Touches that
+// start on the map are left alone so pinch-zoom keeps working there.
+export function useHideGesture(enabled: boolean, onHide: () => void): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onHide();
+    };
+
+    const handleTouchStart = (event: TouchEvent) => {
+      const target = event.target as Element | null;
+      if (event.touches.length >= 2 && !target?.closest('.leaflet-container')) {
+        onHide();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('touchstart', handleTouchStart);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('touchstart', handleTouchStart);
+    };
+  }, [enabled, onHide]);
+}
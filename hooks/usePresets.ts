@@ -0,0 +1,48 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { loadPresets, savePresets, SosPreset } from '@/lib/presets';
+
+interface UsePresetsReturn {
+  presets: SosPreset[];
+  add: (preset: Omit<SosPreset, 'id'>) => void;
+  remove: (id: string) => void;
+}
+
+// Presets from localStorage, read after mount so server and client render
+// the same empty list first
+export function usePresets(): UsePresetsReturn {
+  const [presets, setPresets] = useState<SosPreset[]>([]);
+
+  useEffect(() => {
+    setPresets(loadPresets());
+  }, []);
+
+  const update = useCallback((change: (prev: SosPreset[]) => SosPreset[]) => {
+    setPresets(prev => {
+      const next = change(prev);
+      savePresets(next);
+      return next;
+    });
+  }, []);
+
+  const add = useCallback(
+    (preset: Omit<SosPreset, 'id'>) => {
+      update(prev => [...prev, { ...preset, id: Date.now().toString() }]);
+    },
+    [update]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      update(prev => prev.filter(preset => preset.id !== id));
+    },
+    [update]
+  );
+
+  return {
+    presets,
+    add,
+    remove,
+  };
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export interface SessionStatusEvent {
+  status: string;
+  callSid: string | null;
+  endReason: string | null;
+  error: string | null;
+}
+
+export interface SessionTranscriptEvent {
+  id: string;
+  text: string;
+  originalText: string | null;
+  timestamp: number;
+}
+
+export interface SessionMessageEvent {
+  id: string;
+  clientId?: string;
+  state: 'sending' | 'delivered' | 'failed';
+  error?: string;
+  spokenText?: string;
+}
+
+export interface SessionMenuEvent {
+  id: string;
+  key: string;
+  label: string;
+  timestamp: number;
+}
+
+interface SessionEventHandlers {
+  onStatus?: (event: SessionStatusEvent) => void;
+  onTranscript?: (event: SessionTranscriptEvent) => void;
+  onMessage?: (event: SessionMessageEvent) => void;
+  onMenu?: (event: SessionMenuEvent) => void;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+
+// Subscribe to a session's SSE stream. The browser reconnects dropped
+// connections itself and sends Last-Event-ID; if the stream is closed for
+// good (e.g. a server restart answered with an error) we reopen it and pass
+// the last id we saw. A server that can't resume from it sends a snapshot,
+// which may repeat transcripts and key presses we already have.
+export function useSessionEvents(
+  sessionId: string | null,
+  handlers: SessionEventHandlers
+): void {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let source: EventSource | null = null;
+    let lastEventId = '';
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let isClosed = false;
+
+    const handle =
+      <T>(dispatch: (data: T) => void) =>
+      (event: MessageEvent) => {
+        lastEventId = event.lastEventId || lastEventId;
+        try {
+          dispatch(JSON.parse(event.data));
+        } catch (error) {
+          console.error('[Session Events] Bad event:', error);
+        }
+      };
+
+    const connect = () => {
+      const url = lastEventId
+        ? `/api/sessions/${sessionId}/events?lastEventId=${encodeURIComponent(
+            lastEventId
+          )}`
+        : `/api/sessions/${sessionId}/events`;
+      source = new EventSource(url);
+
+      source.addEventListener(
+        'status',
+        handle<SessionStatusEvent>((data) =>
+          handlersRef.current.onStatus?.(data)
+        )
+      );
+      source.addEventListener(
+        'transcript',
+        handle<SessionTranscriptEvent>((data) =>
+          handlersRef.current.onTranscript?.(data)
+        )
+      );
+      source.addEventListener(
+        'message',
+        handle<SessionMessageEvent>((data) =>
+          handlersRef.current.onMessage?.(data)
+        )
+      );
+      source.addEventListener(
+        'menu',
+        handle<SessionMenuEvent>((data) => handlersRef.current.onMenu?.(data))
+      );
+
+      source.onerror = () => {
+        if (isClosed || !source || source.readyState !== EventSource.CLOSED) {
+          return;
+        }
+        console.warn('[Session Events] Stream closed, reconnecting...');
+        source.close();
+        retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      isClosed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [sessionId]);
+}
@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Audio left on disk by calls before a restart is swept without waiting
+    // for a new call to write some
+    const { startAudioSweeper } = await import('./lib/audio-storage')
+    startAudioSweeper()
+  }
+}
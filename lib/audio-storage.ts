@@ -0,0 +1,305 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { getSession } from '@/lib/sessions'
+import { DATA_DIR } from '@/lib/storage'
+import { HostedAudioType, validateAudio } from '@/lib/audio-validation'
+import type { SynthesizedAudio } from '@/lib/speech'
+
+// Synthesized audio for a session's call. Only the server's own speech
+// synthesis creates it, and every file is validated before it is stored.
+// Files live outside public/ under DATA_DIR/audio and are only reachable
+// through /api/audio/:id with a signed, short-lived URL. A sweeper, started
+// with the server (see instrumentation.ts), deletes them once the call is
+// over.
+//
+// Audio from the TTS cache is the same in every call, so it is hosted once
+// under an id derived from its cache key and shared by every session that
+// plays it. Each reuse keeps it for another retention period.
+
+const AUDIO_DIR = join(DATA_DIR, 'audio')
+
+// Long enough for Twilio to fetch the audio after a slow answer
+const AUDIO_URL_TTL_MS = 10 * 60 * 1000
+// Audio is deleted after this even if the session never ends
+const AUDIO_RETENTION_MS = 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+// Without a configured secret, URLs are signed with a per-process key and
+// stop working on restart, which is fine for links this short-lived
+const AUDIO_URL_SECRET = process.env.AUDIO_URL_SECRET
+
+// Ids are random UUIDs; anything else never reaches the filesystem
+const AUDIO_ID = /^[0-9a-f-]{36}$/
+
+const EXTENSIONS: Record<HostedAudioType, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+}
+
+interface AudioMetadata {
+  id: string
+  // null for shared audio from the TTS cache
+  sessionId: string | null
+  contentType: HostedAudioType
+  filename: string
+  durationSeconds: number
+  createdAt: number
+  expiresAt: number
+}
+
+const globalForAudio = globalThis as unknown as {
+  audioUrlSecret?: Buffer
+  audioSweeper?: NodeJS.Timeout
+}
+
+function getSecret(): Buffer {
+  if (AUDIO_URL_SECRET) return Buffer.from(AUDIO_URL_SECRET)
+  return (globalForAudio.audioUrlSecret ??= randomBytes(32))
+}
+
+// Signs the path, so a signature for one audio route never works on another
+function sign(path: string, expires: number): string {
+  return createHmac('sha256', getSecret())
+    .update(`${path}:${expires}`)
+    .digest('hex')
+}
+
+function audioPath(id: string): string {
+  return `/api/audio/${id}`
+}
+
+function metadataPath(id: string): string {
+  return join(AUDIO_DIR, `${id}.json`)
+}
+
+async function readMetadata(id: string): Promise<AudioMetadata | null> {
+  if (!AUDIO_ID.test(id)) return null
+  try {
+    return JSON.parse(await readFile(metadataPath(id), 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function deleteAudio(metadata: AudioMetadata) {
+  await rm(join(AUDIO_DIR, metadata.filename), { force: true })
+  await rm(metadataPath(metadata.id), { force: true })
+}
+
+async function writeAudio(
+  id: string,
+  sessionId: string | null,
+  buffer: Buffer,
+  contentType: string
+) {
+  const durationSeconds = validateAudio(buffer, contentType)
+  const type = contentType as HostedAudioType
+
+  await mkdir(AUDIO_DIR, { recursive: true })
+
+  const now = Date.now()
+  const metadata: AudioMetadata = {
+    id,
+    sessionId,
+    contentType: type,
+    filename: `${id}.${EXTENSIONS[type]}`,
+    durationSeconds,
+    createdAt: now,
+    expiresAt: now + AUDIO_RETENTION_MS,
+  }
+
+  // Audio first, so metadata never points at a missing file
+  await writeFile(join(AUDIO_DIR, metadata.filename), buffer)
+  await writeFile(metadataPath(id), JSON.stringify(metadata))
+  console.log('[Audio Storage] Audio saved:', {
+    id,
+    sessionId,
+    durationSeconds,
+  })
+}
+
+// Store synthesized audio (MP3 unless told otherwise) for a session and
+// return its id. Throws AudioValidationError for audio that can't be hosted.
+export async function saveAudioFile(
+  sessionId: string,
+  buffer: Buffer,
+  contentType: string = 'audio/mpeg'
+): Promise<string> {
+  const id = randomUUID()
+  await writeAudio(id, sessionId, buffer, contentType)
+  return id
+}
+
+// Cache keys are SHA-256 hex; their first 128 bits make an id in the same
+// shape as a random one
+function sharedAudioId(cacheKey: string): string {
+  const hex = cacheKey.slice(0, 32)
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-')
+}
+
+// Host audio from the TTS cache, or reuse the copy already hosted for the
+// same cache key
+export async function saveSharedAudio(
+  cacheKey: string,
+  buffer: Buffer,
+  contentType: string = 'audio/mpeg'
+): Promise<string> {
+  const id = sharedAudioId(cacheKey)
+  const existing = await readMetadata(id)
+  const now = Date.now()
+  if (existing && existing.expiresAt > now) {
+    await writeFile(
+      metadataPath(id),
+      JSON.stringify({ ...existing, expiresAt: now + AUDIO_RETENTION_MS })
+    )
+    console.log('[Audio Storage] Reusing shared audio:', id)
+    return id
+  }
+
+  await writeAudio(id, null, buffer, contentType)
+  return id
+}
+
+// Host speech for a session's call: shared when it came through the TTS
+// cache, the session's own otherwise
+export function saveSpeech(
+  sessionId: string,
+  { audio, contentType, cacheKey }: SynthesizedAudio
+): Promise<string> {
+  return cacheKey
+    ? saveSharedAudio(cacheKey, audio, contentType)
+    : saveAudioFile(sessionId, audio, contentType)
+}
+
+// A URL for a path on this server that only works until `ttlMs` from now.
+// Streamed speech is signed this way too (see lib/pending-speech.ts).
+export function getSignedUrl(
+  baseUrl: string,
+  path: string,
+  ttlMs: number = AUDIO_URL_TTL_MS
+): string {
+  const expires = Date.now() + ttlMs
+  return `${baseUrl}${path}?expires=${expires}&signature=${sign(path, expires)}`
+}
+
+export function isValidUrlSignature(
+  path: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  const expiresAt = Number(expires)
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false
+  }
+
+  const expected = Buffer.from(sign(path, expiresAt))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function getAudioUrl(baseUrl: string, id: string): string {
+  return getSignedUrl(baseUrl, audioPath(id))
+}
+
+export function isValidAudioSignature(
+  id: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  return isValidUrlSignature(audioPath(id), expires, signature)
+}
+
+// True for an unexpired audio URL this server signed. Anything else must
+// never be handed to Twilio <Play>.
+export function isHostedAudioUrl(baseUrl: string, audioUrl: string): boolean {
+  let url: URL
+  try {
+    url = new URL(audioUrl)
+  } catch {
+    return false
+  }
+
+  const match = url.pathname.match(/^\/api\/audio\/([^/]+)$/)
+  return (
+    url.origin === new URL(baseUrl).origin &&
+    match !== null &&
+    isValidAudioSignature(
+      match[1],
+      url.searchParams.get('expires'),
+      url.searchParams.get('signature')
+    )
+  )
+}
+
+export async function readAudioFile(
+  id: string
+): Promise<{ audio: Buffer; contentType: string } | null> {
+  const metadata = await readMetadata(id)
+  if (!metadata || metadata.expiresAt < Date.now()) return null
+
+  try {
+    const audio = await readFile(join(AUDIO_DIR, metadata.filename))
+    return { audio, contentType: metadata.contentType }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+// Delete session audio whose call is over or whose session is gone, and any
+// audio that has outlived its retention. Returns how many files were removed.
+export async function sweepAudio(): Promise<number> {
+  let entries: string[]
+  try {
+    entries = await readdir(AUDIO_DIR)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0
+    throw error
+  }
+
+  let removed = 0
+  const now = Date.now()
+  for (const entry of entries) {
+    if (!entry.endsWith('.json')) continue
+
+    const metadata = await readMetadata(entry.slice(0, -'.json'.length))
+    if (!metadata) continue
+
+    // Shared audio outlives any one call and only goes once unused
+    const session = metadata.sessionId
+      ? await getSession(metadata.sessionId)
+      : null
+    const isDone =
+      metadata.sessionId !== null &&
+      (!session || session.status === 'ended' || session.status === 'failed')
+    if (isDone || metadata.expiresAt < now) {
+      await deleteAudio(metadata)
+      removed++
+    }
+  }
+
+  if (removed > 0) {
+    console.log('[Audio Storage] Swept audio files:', removed)
+  }
+  return removed
+}
+
+export function startAudioSweeper() {
+  if (globalForAudio.audioSweeper) return
+
+  globalForAudio.audioSweeper = setInterval(() => {
+    sweepAudio().catch((error) =>
+      console.error('[Audio Storage] Sweep failed:', error)
+    )
+  }, SWEEP_INTERVAL_MS)
+  // Never keep the process alive just to sweep
+  globalForAudio.audioSweeper.unref()
+}
@@ -0,0 +1,138 @@
+// Checks audio before it is hosted for Twilio <Play>: the bytes must really
+// be the claimed format, and the file must stay within size and duration
+// limits. Only MP3 and WAV are accepted, the two formats speech comes in.
+
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024
+// Comfortably above MAX_TTS_CHARACTERS of speech
+export const MAX_AUDIO_SECONDS = 10 * 60
+
+export const HOSTED_AUDIO_TYPES = ['audio/mpeg', 'audio/wav'] as const
+export type HostedAudioType = (typeof HOSTED_AUDIO_TYPES)[number]
+
+export class AudioValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AudioValidationError'
+  }
+}
+
+export function isHostedAudioType(type: string): type is HostedAudioType {
+  return (HOSTED_AUDIO_TYPES as readonly string[]).includes(type)
+}
+
+// Bitrates in kbps for MPEG-1 and MPEG-2/2.5 Layer III, by header index
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+}
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+}
+
+// Skip an ID3v2 tag; its size is a 28-bit "synchsafe" integer
+function skipId3(audio: Buffer): number {
+  if (audio.length < 10 || audio.toString('latin1', 0, 3) !== 'ID3') return 0
+  const size = (audio[6] << 21) | (audio[7] << 14) | (audio[8] << 7) | audio[9]
+  return 10 + size
+}
+
+// Walk the MP3 frame headers and add up their duration. Stops at the first
+// byte that isn't a frame, which covers trailing ID3v1 tags.
+function mp3Duration(audio: Buffer): number | null {
+  let offset = skipId3(audio)
+  let seconds = 0
+  let frames = 0
+
+  while (offset + 4 <= audio.length) {
+    const header = audio.readUInt32BE(offset)
+    const isSync = header >>> 21 === 0x7ff
+    const version = (header >>> 19) & 0x3
+    const layer = (header >>> 17) & 0x3
+    const bitrateIndex = (header >>> 12) & 0xf
+    const sampleRateIndex = (header >>> 10) & 0x3
+    const padding = (header >>> 9) & 0x1
+
+    // Layer III only, no free-format or reserved values
+    const sampleRate = MP3_SAMPLE_RATES[version]?.[sampleRateIndex]
+    if (
+      !isSync ||
+      layer !== 1 ||
+      !sampleRate ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15
+    ) {
+      break
+    }
+
+    const isMpeg1 = version === 3
+    const bitrate =
+      (isMpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex] * 1000
+    const samples = isMpeg1 ? 1152 : 576
+    const frameLength =
+      Math.floor(((samples / 8) * bitrate) / sampleRate) + padding
+
+    seconds += samples / sampleRate
+    frames++
+    offset += frameLength
+  }
+
+  return frames > 0 ? seconds : null
+}
+
+// Duration from the fmt chunk's byte rate and the size of the data chunk
+function wavDuration(audio: Buffer): number | null {
+  if (
+    audio.length < 12 ||
+    audio.toString('latin1', 0, 4) !== 'RIFF' ||
+    audio.toString('latin1', 8, 12) !== 'WAVE'
+  ) {
+    return null
+  }
+
+  let byteRate: number | null = null
+  let offset = 12
+  while (offset + 8 <= audio.length) {
+    const chunkId = audio.toString('latin1', offset, offset + 4)
+    const chunkSize = audio.readUInt32LE(offset + 4)
+    const body = offset + 8
+
+    if (chunkId === 'fmt ' && body + 12 <= audio.length) {
+      byteRate = audio.readUInt32LE(body + 8)
+    } else if (chunkId === 'data') {
+      if (!byteRate) return null
+      const dataLength = Math.min(chunkSize, audio.length - body)
+      return dataLength / byteRate
+    }
+    // Chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2)
+  }
+  return null
+}
+
+// Throws AudioValidationError unless the audio can be hosted. Returns its
+// duration in seconds.
+export function validateAudio(audio: Buffer, contentType: string): number {
+  if (!isHostedAudioType(contentType)) {
+    throw new AudioValidationError(`Unsupported audio type: ${contentType}`)
+  }
+  if (audio.length === 0) {
+    throw new AudioValidationError('Audio is empty')
+  }
+  if (audio.length > MAX_AUDIO_BYTES) {
+    throw new AudioValidationError(
+      `Audio exceeds ${MAX_AUDIO_BYTES / 1024 / 1024} MB`
+    )
+  }
+
+  const duration =
+    contentType === 'audio/wav' ? wavDuration(audio) : mp3Duration(audio)
+  if (duration === null) {
+    throw new AudioValidationError(`Audio is not valid ${contentType}`)
+  }
+  if (duration > MAX_AUDIO_SECONDS) {
+    throw new AudioValidationError(`Audio exceeds ${MAX_AUDIO_SECONDS} seconds`)
+  }
+  return duration
+}
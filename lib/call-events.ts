@@ -0,0 +1,77 @@
+import { getStorage, CallEvent, SessionStatus } from '@/lib/storage'
+import { getSessionByCallSid, updateSession } from '@/lib/sessions'
+import { CallEndReason, isCallEndReason, toAppCallStatus } from '@/lib/twilio'
+
+export type { CallEvent }
+
+export interface CallState {
+  status: string
+  twilioStatus: string
+  endReason: CallEndReason | null
+  answeredBy: string | null
+  duration: number | null
+  startTime: string | null
+  endTime: string | null
+  events: CallEvent[]
+}
+
+// Callbacks can arrive out of order; the one with the highest sequence
+// number is the call's current state
+function latestEvent(events: CallEvent[]): CallEvent | null {
+  return events.reduce<CallEvent | null>(
+    (latest, event) =>
+      !latest || event.sequenceNumber > latest.sequenceNumber ? event : latest,
+    null
+  )
+}
+
+// Record a status callback and move the owning session along with it
+export async function recordCallEvent(event: CallEvent): Promise<void> {
+  await getStorage().addCallEvent(event)
+  console.log('[Call Events] Call status:', {
+    callSid: event.callSid,
+    twilioStatus: event.twilioStatus,
+    sequenceNumber: event.sequenceNumber,
+  })
+
+  await syncSessionWithCall(event.callSid)
+}
+
+// Bring the call's session up to its latest recorded status. Also called once
+// the session learns its call SID, in case a callback beat it there.
+export async function syncSessionWithCall(callSid: string): Promise<void> {
+  const session = await getSessionByCallSid(callSid)
+  if (!session) return
+
+  const latest = latestEvent(await getStorage().listCallEvents(callSid))
+  if (!latest) return
+
+  await updateSession(session.id, {
+    status: toAppCallStatus(latest.twilioStatus) as SessionStatus,
+    endReason: isCallEndReason(latest.twilioStatus)
+      ? latest.twilioStatus
+      : null,
+  })
+}
+
+export async function getCallState(callSid: string): Promise<CallState | null> {
+  const events = (await getStorage().listCallEvents(callSid)).sort(
+    (a, b) => a.sequenceNumber - b.sequenceNumber
+  )
+  const latest = latestEvent(events)
+  if (!latest) return null
+
+  const answered = events.find((event) => event.twilioStatus === 'in-progress')
+  const ended = isCallEndReason(latest.twilioStatus) ? latest : null
+
+  return {
+    status: toAppCallStatus(latest.twilioStatus),
+    twilioStatus: latest.twilioStatus,
+    endReason: ended ? (ended.twilioStatus as CallEndReason) : null,
+    answeredBy: latest.answeredBy,
+    duration: ended ? ended.duration : null,
+    startTime: answered ? new Date(answered.timestamp).toISOString() : null,
+    endTime: ended ? new Date(ended.timestamp).toISOString() : null,
+    events,
+  }
+}
@@ -0,0 +1,304 @@
+import menuConfig from '@/config/call-menu.json'
+import {
+  buildLocationMessage,
+  buildMedicalMessage,
+  translateSpokenMessage,
+} from '@/lib/emergency-message'
+import {
+  addSessionMessage,
+  listSessionMessages,
+  Session,
+  updateSession,
+} from '@/lib/sessions'
+import { publishSessionEvent } from '@/lib/session-events'
+import {
+  getSpeechSynthesizer,
+  SLOW_VOICE_SETTINGS,
+  SynthesisOptions,
+  toLanguageHint,
+} from '@/lib/speech'
+import { saveSpeech } from '@/lib/audio-storage'
+import { createPendingSpeech, getPendingSpeechUrl } from '@/lib/pending-speech'
+import {
+  buildPlayAndRecordTwiml,
+  buildPlayAndStreamTwiml,
+  buildRecordTwiml,
+  CALL_MODE,
+} from '@/lib/twilio'
+import { getMediaStreamUrl } from '@/lib/url'
+import { languageOf, translateForDelivery } from '@/lib/translation'
+
+// Keypad menu for the operator, announced once after the emergency message.
+// Keys arrive from <Gather> after the announcement, from <Record> (any key
+// ends a recording) and from the media stream's DTMF events. Operators can
+// also say the option instead of pressing it, in the dispatch language, when
+// config/call-menu.json has phrases for it; elsewhere the menu is keys only.
+// Speech only counts when the whole utterance is one of the phrases, so a
+// question such as "Where are you exactly?" reaches the person as a
+// transcript instead of picking an option. Bump "version" on edits.
+
+export type MenuAction = 'repeat' | 'location' | 'medical' | 'slower'
+
+interface MenuOption {
+  action: MenuAction
+  // How the key press reads in the person's chat
+  label: string
+}
+
+interface MenuSpeech {
+  // What Twilio should recognise, e.g. 'de-DE'
+  speechLanguage: string
+  // Menu key -> whole utterances that pick it
+  phrases: Record<string, string[]>
+}
+
+const menuSpeech = menuConfig.languages as Record<string, MenuSpeech>
+
+const MENU_OPTIONS: Record<string, MenuOption> = {
+  '1': {
+    action: 'repeat',
+    label: 'Repeat the last message',
+  },
+  '2': {
+    action: 'location',
+    label: 'Hear the location again',
+  },
+  '3': {
+    action: 'medical',
+    label: 'Hear medical information',
+  },
+  '4': {
+    action: 'slower',
+    label: 'Speak more slowly',
+  },
+}
+
+// How a key press reads in the person's chat
+export function getMenuLabel(key: string): string | null {
+  return MENU_OPTIONS[key]?.label || null
+}
+
+export const MENU_ANNOUNCEMENT =
+  'To hear the last message again, press 1. To hear the location, press 2. For medical information, press 3. To hear messages more slowly, press 4.'
+
+function speechFor(language: string | null | undefined): MenuSpeech | null {
+  const code = language?.split(/[-_]/)[0].toLowerCase()
+  return code && Object.prototype.hasOwnProperty.call(menuSpeech, code)
+    ? menuSpeech[code]
+    : null
+}
+
+// "Repeat, please." -> "repeat please"
+function normalizeUtterance(speech: string): string {
+  return speech
+    .toLowerCase()
+    .replace(/[.,;:!?¿¡"“”]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// How <Gather> should listen for spoken options in the dispatch language, or
+// null when the menu only takes keys there
+export function getMenuSpeechInput(
+  dispatchLanguage: string | null | undefined
+): { language: string; hints: string[] } | null {
+  const speech = speechFor(dispatchLanguage)
+  return speech
+    ? {
+        language: speech.speechLanguage,
+        hints: Object.values(speech.phrases).flat(),
+      }
+    : null
+}
+
+// The menu key for a key press or a spoken option in the dispatch language,
+// if it is one
+export function parseMenuKey(
+  digits: string | null | undefined,
+  speech?: string | null,
+  dispatchLanguage?: string | null
+): string | null {
+  const digit = digits?.trim().charAt(0)
+  if (digit && MENU_OPTIONS[digit]) return digit
+
+  const phrases = speechFor(dispatchLanguage)?.phrases
+  if (!speech || !phrases) return null
+
+  const utterance = normalizeUtterance(speech)
+  if (MENU_OPTIONS[utterance]) return utterance
+  for (const [key, options] of Object.entries(phrases)) {
+    if (options.includes(utterance)) return key
+  }
+  return null
+}
+
+// Voice settings for anything spoken into this session's call
+export function sessionSpeechOptions(session: Session): SynthesisOptions {
+  return session.slowSpeech ? { voiceSettings: SLOW_VOICE_SETTINGS } : {}
+}
+
+async function lastSpokenMessage(session: Session): Promise<string> {
+  const messages = await listSessionMessages(session.id)
+  const last = messages
+    .filter(
+      (message) =>
+        message.direction === 'outbound' &&
+        message.channel !== 'sms' &&
+        message.deliveryStatus !== 'failed'
+    )
+    .pop()
+  return last ? last.spokenText || last.text : session.emergencyMessage
+}
+
+async function buildMenuSpeech(
+  session: Session,
+  action: MenuAction
+): Promise<string> {
+  const dispatchLanguage = session.routing?.language || null
+
+  switch (action) {
+    case 'repeat':
+    case 'slower':
+      return lastSpokenMessage(session)
+    case 'location': {
+      const english = buildLocationMessage(
+        session.emergencyData,
+        session.movedTo
+      )
+      const translation = await translateForDelivery(
+        english,
+        'en',
+        dispatchLanguage
+      )
+      return translation ? translation.text : english
+    }
+    case 'medical': {
+      // The description is in the person's own language
+      const translation = await translateSpokenMessage(
+        session.emergencyData.description,
+        (description) =>
+          buildMedicalMessage({ ...session.emergencyData, description }),
+        languageOf(session.emergencyData.browserLanguage),
+        dispatchLanguage
+      )
+      return translation
+        ? translation.text
+        : buildMedicalMessage(session.emergencyData)
+    }
+  }
+}
+
+export interface MenuResponse {
+  key: string
+  action: MenuAction
+  // What to speak back to the operator, and how
+  text: string
+  options: SynthesisOptions
+}
+
+// Act on a menu key: note it in the person's chat, apply it to the session
+// and return what to say to the operator
+export async function handleMenuKey(
+  session: Session,
+  key: string
+): Promise<MenuResponse | null> {
+  const option = MENU_OPTIONS[key]
+  if (!option) return null
+
+  console.log('[Call Menu] Operator pressed:', {
+    sessionId: session.id,
+    key,
+    action: option.action,
+  })
+
+  const message = await addSessionMessage(session.id, {
+    direction: 'inbound',
+    text: `Operator pressed ${key}: ${option.label}`,
+    menuKey: key,
+  })
+  publishSessionEvent(session.id, {
+    type: 'menu',
+    data: {
+      id: message.id,
+      key,
+      label: option.label,
+      timestamp: message.timestamp,
+    },
+  })
+
+  const current =
+    option.action === 'slower' && !session.slowSpeech
+      ? (await updateSession(session.id, { slowSpeech: true })) || session
+      : session
+
+  return {
+    key,
+    action: option.action,
+    text: await buildMenuSpeech(current, option.action),
+    options: sessionSpeechOptions(current),
+  }
+}
+
+// Synthesize the announcement in the dispatcher's language and host it. It
+// is the same for every call, so it is cached and hosted once for all of them.
+export async function prepareMenuAnnouncement(
+  sessionId: string,
+  dispatchLanguage: string | null
+): Promise<string> {
+  const translation = await translateForDelivery(
+    MENU_ANNOUNCEMENT,
+    'en',
+    dispatchLanguage
+  )
+  const speech = await getSpeechSynthesizer().synthesize(
+    translation ? translation.text : MENU_ANNOUNCEMENT,
+    {
+      language: toLanguageHint(translation ? translation.language : 'en'),
+      cache: true,
+    }
+  )
+  return saveSpeech(sessionId, speech)
+}
+
+// TwiML answering a menu key in a turn-based call: speak the response, then
+// go back to recording the operator
+export function buildMenuReplyTwiml(
+  baseUrl: string,
+  response: MenuResponse
+): string {
+  const speechId = createPendingSpeech(response.text, response.options)
+  return buildPlayAndRecordTwiml(
+    getPendingSpeechUrl(baseUrl, speechId),
+    `${baseUrl}/api/twilio/recording-callback`
+  )
+}
+
+// TwiML for the call once the menu's <Gather> has taken input: speak the
+// response if there is one, then listen again. The Gather comes before
+// <Connect><Stream>, so on stream calls this reconnects the media stream the
+// call never reached; otherwise it records the operator's next reply.
+export function buildAfterMenuTwiml(
+  baseUrl: string,
+  sessionId: string | null,
+  response: MenuResponse | null
+): string {
+  const callbackUrl = `${baseUrl}/api/twilio/recording-callback`
+  const replyUrl = response
+    ? getPendingSpeechUrl(
+        baseUrl,
+        createPendingSpeech(response.text, response.options)
+      )
+    : null
+
+  if (CALL_MODE === 'stream' && sessionId) {
+    return buildPlayAndStreamTwiml(
+      replyUrl ? [replyUrl] : [],
+      getMediaStreamUrl(baseUrl),
+      sessionId,
+      callbackUrl
+    )
+  }
+  return replyUrl
+    ? buildPlayAndRecordTwiml(replyUrl, callbackUrl)
+    : buildRecordTwiml(callbackUrl)
+}
@@ -0,0 +1,267 @@
+import { EmergencyData } from '@/lib/types'
+import { Coordinates } from '@/lib/geo'
+import { buildTriageSentences } from '@/lib/triage'
+import {
+  ComposeOptions,
+  composeEmergencyMessage,
+  hasTemplates,
+} from '@/lib/message-composer'
+import { getService } from '@/lib/services'
+import {
+  languageOf,
+  Translation,
+  translateForDelivery,
+} from '@/lib/translation'
+
+// What the operator hears first. See lib/message-composer for the templates
+// and the spoken-length budget.
+export function buildEmergencyMessage(emergencyData: EmergencyData): string {
+  return composeEmergencyMessage(emergencyData).text
+}
+
+// The emergency message as its opening sentence and the rest. The opening is
+// the same in every call, so the call plays it from the TTS cache.
+export function buildEmergencyMessageParts(
+  emergencyData: EmergencyData,
+  options?: ComposeOptions
+): {
+  intro: string
+  details: string
+} {
+  const { sections } = composeEmergencyMessage(emergencyData, options)
+  return {
+    intro: sections.find((section) => section.id === 'intro')?.text || '',
+    details: sections
+      .filter((section) => section.id !== 'intro')
+      .map((section) => section.text)
+      .join(' '),
+  }
+}
+
+// The emergency message worded in the dispatcher's language, for languages
+// with their own templates. What the templates can't word themselves, the
+// person's description, the service and the triage answers, is translated
+// in. Null when the language has no templates.
+export async function buildLocalizedMessageParts(
+  emergencyData: EmergencyData,
+  dispatchLanguage: string | null
+): Promise<{ intro: string; details: string } | null> {
+  if (!dispatchLanguage || !hasTemplates(dispatchLanguage)) return null
+
+  const service =
+    getService(emergencyData.serviceNeeded)?.spoken ||
+    emergencyData.serviceNeeded
+  const triage = buildTriageSentences(emergencyData.triage).join(' ')
+  const [description, serviceTranslation, triageTranslation] =
+    await Promise.all([
+      translateForDelivery(
+        emergencyData.description,
+        languageOf(emergencyData.browserLanguage),
+        dispatchLanguage
+      ),
+      translateForDelivery(service, 'en', dispatchLanguage),
+      triage ? translateForDelivery(triage, 'en', dispatchLanguage) : null,
+    ])
+
+  return buildEmergencyMessageParts(
+    {
+      ...emergencyData,
+      description: description ? description.text : emergencyData.description,
+    },
+    {
+      locale: dispatchLanguage,
+      values: {
+        service: serviceTranslation ? serviceTranslation.text : service,
+        triage: triageTranslation ? triageTranslation.text : triage,
+      },
+    }
+  )
+}
+
+// Said when the person moves during the call. The distance is from the last
+// position the operator was given.
+export function buildMovedMessage(
+  location: Coordinates,
+  distance: number | null
+): string {
+  const coordinates = `latitude ${location.latitude.toFixed(
+    4
+  )}, longitude ${location.longitude.toFixed(4)}`
+  return distance === null
+    ? `The person has moved to GPS coordinates ${coordinates}.`
+    : `The person has moved to GPS coordinates ${coordinates}, about ${Math.round(
+        distance
+      )} metres from their last reported position.`
+}
+
+// Everything known about where the person is, for the call menu. Coordinates
+// are read out to four decimal places (about 10 m).
+export function buildLocationMessage(
+  emergencyData: EmergencyData,
+  movedTo?: Coordinates
+): string {
+  if (movedTo) {
+    const moved = buildMovedMessage(movedTo, null)
+    return emergencyData.manualAddress
+      ? `${moved} They were first at ${emergencyData.manualAddress}.`
+      : moved
+  }
+
+  const parts: string[] = []
+  if (emergencyData.manualAddress) {
+    parts.push(`The person is at ${emergencyData.manualAddress}.`)
+  }
+  if (emergencyData.location) {
+    const { latitude, longitude } = emergencyData.location
+    parts.push(
+      `GPS coordinates: latitude ${latitude.toFixed(
+        4
+      )}, longitude ${longitude.toFixed(4)}.`
+    )
+  }
+  return parts.length > 0
+    ? parts.join(' ')
+    : 'The location of the person is unknown.'
+}
+
+// The medical details the person gave, for the call menu
+export function buildMedicalMessage(emergencyData: EmergencyData): string {
+  const triage = buildTriageSentences(emergencyData.triage)
+  const details =
+    triage.length > 0
+      ? triage.join(' ')
+      : 'No other medical information was given.'
+  return `The person described the emergency as: ${emergencyData.description}. ${details}`
+}
+
+// A map link for coordinates, for people reading rather than listening
+export function buildMapLink(latitude: string, longitude: string): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=18/${latitude}/${longitude}`
+}
+
+// The incident part of the location SMS, translated like a spoken message
+export function buildSmsSummary(emergencyData: EmergencyData): string {
+  const service =
+    getService(emergencyData.serviceNeeded)?.spoken ||
+    emergencyData.serviceNeeded
+  return `Emergency: a person who cannot speak needs ${service}. They said: ${emergencyData.description}`
+}
+
+// The location part of the SMS. Addresses and coordinates are sent as
+// entered, never translated. Coordinates keep six decimals (about 10 cm), and
+// come from the latest position once the person has moved.
+export function buildSmsLocation(
+  emergencyData: EmergencyData,
+  movedTo?: Coordinates
+): string {
+  const lines: string[] = []
+  if (emergencyData.manualAddress) {
+    lines.push(
+      movedTo
+        ? `Starting address: ${emergencyData.manualAddress}`
+        : `Address: ${emergencyData.manualAddress}`
+    )
+  }
+  const location = movedTo || emergencyData.location
+  if (location) {
+    const latitude = location.latitude.toFixed(6)
+    const longitude = location.longitude.toFixed(6)
+    lines.push(`${movedTo ? 'Latest GPS' : 'GPS'}: ${latitude}, ${longitude}`)
+    lines.push(buildMapLink(latitude, longitude))
+  }
+  return lines.length > 0 ? lines.join('\n') : 'Location: unknown'
+}
+
+// What the operator hears for a message typed during the call
+export function frameTypedMessage(text: string): string {
+  return `The person at risk said: ${text}`
+}
+
+// Stands in for the person's words while their frame is translated alone
+const WORDS_MARK = '\u0000'
+// Punctuation that closes the words, such as the full stop after them, stays
+// next to them rather than going to the translator
+const LEADING_PUNCTUATION = /^[\s.,;:!?]*/
+
+// Translate only the English around the words, which are already in the
+// dispatcher's language. Each piece of the frame is translated on its own and
+// the words go back in between, exactly as given.
+async function translateFrame(
+  words: string,
+  frame: (words: string) => string,
+  dispatchLanguage: string
+): Promise<Translation | null> {
+  const pieces = frame(WORDS_MARK).split(WORDS_MARK)
+  const translated = await Promise.all(
+    pieces.map((piece) =>
+      /[A-Za-z]/.test(piece)
+        ? translateForDelivery(
+            piece.replace(LEADING_PUNCTUATION, '').replace(/\s+$/, ''),
+            'en',
+            dispatchLanguage
+          )
+        : null
+    )
+  )
+  if (translated.every((translation) => !translation)) return null
+
+  const text = pieces
+    .map((piece, index) => {
+      const translation = translated[index]
+      if (!translation) return piece
+      const [leading] = piece.match(LEADING_PUNCTUATION) || ['']
+      const [trailing] = piece.match(/\s*$/) || ['']
+      return `${leading}${translation.text}${trailing}`
+    })
+    .join(words)
+  return { text, language: dispatchLanguage }
+}
+
+// Messages are English templates around the person's own words. To speak one
+// in the dispatcher's language, bring the words into English, fill in the
+// template, then translate the whole message. When the person already speaks
+// the dispatcher's language, their words are kept and only the template is
+// translated. Returns null when the message goes out as typed.
+export async function translateSpokenMessage(
+  words: string,
+  frame: (words: string) => string,
+  personLanguage: string | null,
+  dispatchLanguage: string | null
+): Promise<Translation | null> {
+  if (dispatchLanguage && personLanguage === dispatchLanguage) {
+    return translateFrame(words, frame, dispatchLanguage)
+  }
+
+  const englishWords =
+    personLanguage && personLanguage !== 'en'
+      ? await translateForDelivery(words, personLanguage, 'en')
+      : null
+  const english = frame(englishWords ? englishWords.text : words)
+  const isEnglish = Boolean(englishWords) || personLanguage === 'en'
+
+  const translation = await translateForDelivery(
+    english,
+    isEnglish ? 'en' : null,
+    dispatchLanguage
+  )
+  return translation || (englishWords && { text: english, language: 'en' })
+}
+
+// The SMS for the dispatcher: the incident in their language, then where the
+// person is
+export async function buildLocationSms(
+  emergencyData: EmergencyData,
+  dispatchLanguage: string | null,
+  movedTo?: Coordinates
+): Promise<string> {
+  const translation = await translateSpokenMessage(
+    emergencyData.description,
+    (description) => buildSmsSummary({ ...emergencyData, description }),
+    languageOf(emergencyData.browserLanguage),
+    dispatchLanguage
+  )
+  const summary = translation
+    ? translation.text
+    : buildSmsSummary(emergencyData)
+  return `${summary}\n${buildSmsLocation(emergencyData, movedTo)}`
+}
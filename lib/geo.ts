@@ -0,0 +1,67 @@
+// Coordinates and distances, shared by the browser's location tracking and
+// the server's location updates
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+// How far the person must move before the operator is told
+export const MOVE_THRESHOLD_METERS =
+  Number(process.env.NEXT_PUBLIC_MOVE_THRESHOLD_METERS) || 100
+
+const EARTH_RADIUS_METERS = 6371000
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+// Great-circle distance (haversine formula)
+export function distanceInMeters(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLng = toRadians(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h))
+}
+
+export function isCoordinates(value: unknown): value is Coordinates {
+  if (!value || typeof value !== 'object') return false
+  const { latitude, longitude } = value as Record<string, unknown>
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  )
+}
+
+// How long a launch waits for the country before routing without it
+const COUNTRY_LOOKUP_TIMEOUT_MS = 5000
+
+// The ISO country code at a position, reverse geocoded with OpenStreetMap
+// Nominatim. Null when the lookup fails or is slow, so callers fall back to
+// placing the coordinates themselves.
+export async function countryCodeAt(
+  coords: Coordinates
+): Promise<string | null> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), COUNTRY_LOOKUP_TIMEOUT_MS)
+  try {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${coords.latitude}&lon=${coords.longitude}&zoom=3`,
+      { signal: controller.signal }
+    )
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const data = await response.json()
+    return data.address?.country_code?.toUpperCase() || null
+  } catch (error) {
+    console.error('[Geo] Country lookup failed:', error)
+    return null
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,72 @@
+// 8 kHz mu-law helpers for Twilio media streams
+
+export const SAMPLE_RATE = 8000
+// Twilio sends and expects 20 ms frames: 160 mu-law bytes
+export const FRAME_BYTES = 160
+
+export function mulawToLinear(value: number): number {
+  const mulaw = ~value & 0xff
+  const sign = mulaw & 0x80
+  const exponent = (mulaw >> 4) & 0x07
+  const mantissa = mulaw & 0x0f
+  const sample = (((mantissa << 3) + 0x84) << exponent) - 0x84
+  return sign ? -sample : sample
+}
+
+export function linearToMulaw(sample: number): number {
+  const BIAS = 0x84
+  const CLIP = 32635
+
+  const sign = sample < 0 ? 0x80 : 0
+  let magnitude = Math.min(Math.abs(sample), CLIP) + BIAS
+
+  let exponent = 7
+  for (
+    let mask = 0x4000;
+    (magnitude & mask) === 0 && exponent > 0;
+    mask >>= 1
+  ) {
+    exponent--
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f
+  return ~(sign | (exponent << 4) | mantissa) & 0xff
+}
+
+// Root-mean-square level of a mu-law buffer, on the 16-bit linear scale
+export function frameEnergy(frame: Buffer): number {
+  if (frame.length === 0) return 0
+
+  let sum = 0
+  for (let i = 0; i < frame.length; i++) {
+    const sample = mulawToLinear(frame[i])
+    sum += sample * sample
+  }
+  return Math.sqrt(sum / frame.length)
+}
+
+export const MULAW_WAV_HEADER_BYTES = 44
+
+// WAV header for mu-law audio. Pass the maximum length when streaming audio
+// of unknown size; players read until the connection closes.
+export function buildMulawWavHeader(dataLength: number): Buffer {
+  const header = Buffer.alloc(MULAW_WAV_HEADER_BYTES)
+  header.write('RIFF', 0)
+  header.writeUInt32LE(Math.min(36 + dataLength, 0xffffffff), 4)
+  header.write('WAVE', 8)
+  header.write('fmt ', 12)
+  header.writeUInt32LE(16, 16) // fmt chunk size
+  header.writeUInt16LE(7, 20) // format: mu-law
+  header.writeUInt16LE(1, 22) // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24)
+  header.writeUInt32LE(SAMPLE_RATE, 28) // byte rate, one byte per sample
+  header.writeUInt16LE(1, 32) // block align
+  header.writeUInt16LE(8, 34) // bits per sample
+  header.write('data', 36)
+  header.writeUInt32LE(dataLength, 40)
+  return header
+}
+
+// Wrap raw mu-law audio in a WAV container so STT services accept it
+export function buildMulawWav(data: Buffer): Buffer {
+  return Buffer.concat([buildMulawWavHeader(data.length), data])
+}
@@ -0,0 +1,33 @@
+import { SynthesisOptions } from '@/lib/speech'
+
+// Active media streams by call SID. Kept on globalThis because the
+// WebSocket server and the Next route handlers load separate module copies.
+
+export interface ActiveMediaStream {
+  callSid: string
+  streamSid: string
+  sessionId: string | null
+  // Synthesize text and play it into the call
+  speak: (text: string, options?: SynthesisOptions) => Promise<void>
+  // Play raw 8 kHz mu-law audio into the call
+  play: (audio: Buffer) => Promise<void>
+}
+
+const globalForStreams = globalThis as unknown as {
+  mediaStreams?: Map<string, ActiveMediaStream>
+}
+const mediaStreams =
+  globalForStreams.mediaStreams ??
+  (globalForStreams.mediaStreams = new Map<string, ActiveMediaStream>())
+
+export function registerMediaStream(stream: ActiveMediaStream) {
+  mediaStreams.set(stream.callSid, stream)
+}
+
+export function unregisterMediaStream(callSid: string) {
+  mediaStreams.delete(callSid)
+}
+
+export function getMediaStream(callSid: string): ActiveMediaStream | undefined {
+  return mediaStreams.get(callSid)
+}
@@ -0,0 +1,274 @@
+import { IncomingMessage } from 'http'
+import { Duplex } from 'stream'
+import { WebSocket, WebSocketServer } from 'ws'
+import {
+  getSpeechRecognizer,
+  getSpeechSynthesizer,
+  SynthesisOptions,
+  toLanguageHint,
+} from '@/lib/speech'
+import { isValidTwilioSignature } from '@/lib/twilio-signature'
+import { MEDIA_STREAM_PATH } from '@/lib/url'
+import { buildMulawWav, FRAME_BYTES } from '@/lib/media-stream/audio'
+import { createUtteranceDetector } from '@/lib/media-stream/utterances'
+import {
+  registerMediaStream,
+  unregisterMediaStream,
+} from '@/lib/media-stream/registry'
+import { addTranscription } from '@/lib/transcripts'
+import { getSession } from '@/lib/sessions'
+import { handleMenuKey, parseMenuKey } from '@/lib/call-menu'
+
+const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL
+
+// Twilio Media Streams messages we act on
+type TwilioStreamMessage =
+  | {
+      event: 'start'
+      start: {
+        streamSid: string
+        callSid: string
+        customParameters?: Record<string, string>
+      }
+    }
+  | { event: 'media'; media: { payload: string; track?: string } }
+  | { event: 'mark'; mark: { name: string } }
+  | { event: 'dtmf'; dtmf: { digit: string } }
+  | { event: 'stop' }
+  | { event: 'connected' }
+
+function getPublicStreamUrl(request: IncomingMessage): string {
+  const host = request.headers['x-forwarded-host'] || request.headers.host
+  const base = PUBLIC_BASE_URL
+    ? PUBLIC_BASE_URL.replace(/\/$/, '')
+    : `https://${host}`
+  return `${base.replace(/^http/, 'ws')}${request.url}`
+}
+
+function sendFrames(ws: WebSocket, streamSid: string, audio: Buffer) {
+  for (let offset = 0; offset < audio.length; offset += FRAME_BYTES) {
+    ws.send(
+      JSON.stringify({
+        event: 'media',
+        streamSid,
+        media: {
+          payload: audio
+            .subarray(offset, offset + FRAME_BYTES)
+            .toString('base64'),
+        },
+      })
+    )
+  }
+}
+
+// Pipe synthesized mu-law audio into the call in 20 ms frames as each chunk
+// arrives, then mark the end so Twilio tells us when playback finishes
+async function speakIntoCall(
+  ws: WebSocket,
+  streamSid: string,
+  text: string,
+  options: SynthesisOptions = {}
+) {
+  const startedAt = Date.now()
+  let remainder = Buffer.alloc(0)
+  let isFirstChunk = true
+
+  const { chunks } = getSpeechSynthesizer().stream(text, {
+    ...options,
+    format: 'ulaw_8000',
+  })
+
+  for await (const chunk of chunks) {
+    if (ws.readyState !== WebSocket.OPEN) return
+
+    if (isFirstChunk) {
+      console.log(
+        `[Media Stream] First audio after ${Date.now() - startedAt}ms`
+      )
+      isFirstChunk = false
+    }
+
+    const audio = Buffer.concat([remainder, chunk])
+    const wholeFrames = audio.length - (audio.length % FRAME_BYTES)
+    sendFrames(ws, streamSid, audio.subarray(0, wholeFrames))
+    remainder = audio.subarray(wholeFrames)
+  }
+
+  if (ws.readyState !== WebSocket.OPEN) return
+  if (remainder.length > 0) {
+    sendFrames(ws, streamSid, remainder)
+  }
+  sendEndMark(ws, streamSid)
+}
+
+function sendEndMark(ws: WebSocket, streamSid: string) {
+  ws.send(
+    JSON.stringify({
+      event: 'mark',
+      streamSid,
+      mark: { name: `message-${Date.now()}` },
+    })
+  )
+}
+
+// Play audio that is already synthesized, such as a prepared quick reply
+async function playIntoCall(ws: WebSocket, streamSid: string, audio: Buffer) {
+  if (ws.readyState !== WebSocket.OPEN) return
+  sendFrames(ws, streamSid, audio)
+  sendEndMark(ws, streamSid)
+}
+
+async function answerMenuKey(
+  sessionId: string,
+  key: string,
+  speak: (text: string, options?: SynthesisOptions) => Promise<void>
+) {
+  const session = await getSession(sessionId)
+  const response = session && (await handleMenuKey(session, key))
+  if (response) {
+    await speak(response.text, response.options)
+  }
+}
+
+function handleConnection(ws: WebSocket) {
+  let callSid: string | null = null
+  let streamSid: string | null = null
+  let sessionId: string | null = null
+  // The dispatch country's language, once the session is looked up
+  let language: string | undefined
+  // Clips play one after another. Sent together, a menu answer and a typed
+  // message would interleave their frames.
+  let playback: Promise<unknown> = Promise.resolve()
+
+  const queuePlayback = (task: () => Promise<void>): Promise<void> => {
+    const result = playback.then(task)
+    playback = result.catch(() => undefined)
+    return result
+  }
+
+  const detector = createUtteranceDetector(async (audio) => {
+    if (!callSid) return
+    const sid = callSid
+
+    try {
+      const wav = buildMulawWav(audio)
+      const text = await getSpeechRecognizer().transcribe(
+        new Blob([wav], { type: 'audio/wav' }),
+        'utterance.wav',
+        { language }
+      )
+      if (text.trim()) {
+        await addTranscription(sid, text)
+      }
+    } catch (error) {
+      console.error('[Media Stream] Transcription error:', error)
+    }
+  })
+
+  ws.on('message', (data) => {
+    let message: TwilioStreamMessage
+    try {
+      message = JSON.parse(data.toString())
+    } catch {
+      console.warn('[Media Stream] Ignoring non-JSON message')
+      return
+    }
+
+    switch (message.event) {
+      case 'start': {
+        const sid = message.start.streamSid
+        callSid = message.start.callSid
+        streamSid = sid
+        console.log('[Media Stream] Stream started:', { callSid, streamSid })
+
+        sessionId = message.start.customParameters?.sessionId || null
+        registerMediaStream({
+          callSid,
+          streamSid: sid,
+          sessionId,
+          speak: (text: string, options?: SynthesisOptions) =>
+            queuePlayback(() => speakIntoCall(ws, sid, text, options)),
+          play: (audio: Buffer) =>
+            queuePlayback(() => playIntoCall(ws, sid, audio)),
+        })
+        if (sessionId) {
+          getSession(sessionId)
+            .then((session) => {
+              language = toLanguageHint(session?.routing?.language)
+            })
+            .catch((error) =>
+              console.error('[Media Stream] Session lookup failed:', error)
+            )
+        }
+        break
+      }
+      case 'media':
+        // <Connect><Stream> only carries the operator's (inbound) audio
+        detector.push(Buffer.from(message.media.payload, 'base64'))
+        break
+      case 'mark':
+        console.log('[Media Stream] Finished playing:', message.mark.name)
+        break
+      case 'dtmf': {
+        // The call menu keeps working once the stream has taken over
+        const key = parseMenuKey(message.dtmf.digit)
+        const sid = streamSid
+        if (key && sid && sessionId) {
+          answerMenuKey(sessionId, key, (text, options) =>
+            queuePlayback(() => speakIntoCall(ws, sid, text, options))
+          ).catch((error) =>
+            console.error('[Media Stream] Menu key failed:', error)
+          )
+        }
+        break
+      }
+      case 'stop':
+        console.log('[Media Stream] Stream stopped:', { callSid, streamSid })
+        detector.flush()
+        break
+    }
+  })
+
+  ws.on('close', () => {
+    detector.flush()
+    if (callSid) {
+      unregisterMediaStream(callSid)
+    }
+  })
+
+  ws.on('error', (error) => {
+    console.error('[Media Stream] WebSocket error:', error)
+  })
+}
+
+// Accept Twilio media stream connections on MEDIA_STREAM_PATH. Returns true
+// when the upgrade was handled so other upgrades (e.g. Next HMR) can proceed.
+export function createMediaStreamUpgradeHandler() {
+  const wss = new WebSocketServer({ noServer: true })
+  wss.on('connection', handleConnection)
+
+  return (request: IncomingMessage, socket: Duplex, head: Buffer): boolean => {
+    const pathname = new URL(request.url || '/', 'http://localhost').pathname
+    if (pathname !== MEDIA_STREAM_PATH) {
+      return false
+    }
+
+    const signature = request.headers['x-twilio-signature']
+    if (
+      !isValidTwilioSignature(
+        getPublicStreamUrl(request),
+        {},
+        Array.isArray(signature) ? signature[0] : signature
+      )
+    ) {
+      socket.write('HTTP/1.1 403 Forbidden\r\n\r\n')
+      socket.destroy()
+      return true
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit('connection', ws, request)
+    })
+    return true
+  }
+}
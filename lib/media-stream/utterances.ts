@@ -0,0 +1,77 @@
+import { frameEnergy, FRAME_BYTES } from '@/lib/media-stream/audio'
+
+// Energy-based voice activity detection: split the operator's continuous
+// audio into utterances at pauses so each can be transcribed on its own.
+const SPEECH_ENERGY_THRESHOLD = 700
+const SPEECH_START_FRAMES = 3 // 60 ms of speech starts an utterance
+const SILENCE_END_FRAMES = 40 // 800 ms of silence ends it
+const MIN_UTTERANCE_FRAMES = 15 // drop clicks shorter than 300 ms
+const MAX_UTTERANCE_FRAMES = 750 // force a cut after 15 s
+
+export interface UtteranceDetector {
+  push: (audio: Buffer) => void
+  flush: () => void
+}
+
+export function createUtteranceDetector(
+  onUtterance: (audio: Buffer) => void
+): UtteranceDetector {
+  let pending = Buffer.alloc(0)
+  let frames: Buffer[] = []
+  let speechFrames = 0
+  let silenceFrames = 0
+  let inUtterance = false
+
+  const emit = () => {
+    const voicedFrames = frames.length - silenceFrames
+    if (voicedFrames >= MIN_UTTERANCE_FRAMES) {
+      onUtterance(Buffer.concat(frames))
+    }
+    frames = []
+    speechFrames = 0
+    silenceFrames = 0
+    inUtterance = false
+  }
+
+  const handleFrame = (frame: Buffer) => {
+    const isSpeech = frameEnergy(frame) > SPEECH_ENERGY_THRESHOLD
+
+    if (!inUtterance) {
+      // Keep a little lead-in so the first syllable isn't clipped
+      frames.push(frame)
+      if (frames.length > SPEECH_START_FRAMES * 2) frames.shift()
+
+      speechFrames = isSpeech ? speechFrames + 1 : 0
+      if (speechFrames >= SPEECH_START_FRAMES) {
+        inUtterance = true
+        silenceFrames = 0
+      }
+      return
+    }
+
+    frames.push(frame)
+    silenceFrames = isSpeech ? 0 : silenceFrames + 1
+
+    if (
+      silenceFrames >= SILENCE_END_FRAMES ||
+      frames.length >= MAX_UTTERANCE_FRAMES
+    ) {
+      emit()
+    }
+  }
+
+  return {
+    push: (audio: Buffer) => {
+      pending = Buffer.concat([pending, audio])
+      while (pending.length >= FRAME_BYTES) {
+        handleFrame(pending.subarray(0, FRAME_BYTES))
+        pending = pending.subarray(FRAME_BYTES)
+      }
+    },
+    flush: () => {
+      if (inUtterance) emit()
+      frames = []
+      pending = Buffer.alloc(0)
+    },
+  }
+}
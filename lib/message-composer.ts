@@ -0,0 +1,192 @@
+import config from '@/config/message-templates.json'
+import { EmergencyData } from '@/lib/types'
+import { buildTriageSentences } from '@/lib/triage'
+import { getService } from '@/lib/services'
+
+// Builds the emergency message from config/message-templates.json. A
+// template is an ordered list of sections per service and locale; a service
+// only lists the sections it changes from "default". Each section offers one
+// or more wordings, and the first whose {placeholders} all have a value is
+// used, so "They are at {address}." falls back to the GPS position. Locales
+// are the operator languages we have wording for; any other language gets
+// the English template, translated as a whole by the caller.
+//
+// The message should fit in targetSeconds of speech. Over budget, sections
+// give way from the highest priority number down: sections with minWords are
+// shortened word by word, others are left out. Priority 0 is always spoken.
+// Pure and deterministic, so the form can preview exactly what is sent.
+
+interface SectionTemplate {
+  id: string
+  priority: number
+  // Shortened to no fewer words than this instead of being left out
+  minWords?: number
+  text: string[]
+}
+
+export interface ComposedSection {
+  id: string
+  text: string
+  shortened: boolean
+}
+
+export interface ComposedMessage {
+  text: string
+  sections: ComposedSection[]
+  // Sections left out to stay within the budget
+  dropped: string[]
+  estimatedSeconds: number
+  targetSeconds: number
+  // The template locale used, 'en' when the requested one has none
+  locale: string
+}
+
+export interface ComposeOptions {
+  locale?: string
+  targetSeconds?: number
+  // Placeholder values to use as given, such as already translated wording
+  values?: Record<string, string>
+}
+
+type TemplateSet = Record<string, Record<string, SectionTemplate[]>>
+
+const templates = config.templates as TemplateSet
+
+export const TARGET_SECONDS = config.targetSeconds
+
+const SHORTENED_SUFFIX = '…'
+
+export function hasTemplates(locale: string): boolean {
+  return Object.prototype.hasOwnProperty.call(templates.default, locale)
+}
+
+function templateFor(serviceNeeded: string, locale: string): SectionTemplate[] {
+  const base = templates.default[locale]
+  const overrides = Object.prototype.hasOwnProperty.call(
+    templates,
+    serviceNeeded
+  )
+    ? templates[serviceNeeded][locale] || []
+    : []
+  return base.map(
+    (section) =>
+      overrides.find((override) => override.id === section.id) || section
+  )
+}
+
+// Digits are read one at a time, so each counts as half a word on top of
+// the word it is part of
+export function estimateSpokenSeconds(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length
+  const digits = (text.match(/\d/g) || []).length
+  return ((words + digits / 2) / config.wordsPerMinute) * 60
+}
+
+function withFullStop(text: string): string {
+  const trimmed = text.trim()
+  return !trimmed || /[.!?…]$/.test(trimmed) ? trimmed : `${trimmed}.`
+}
+
+function placeholderValues(emergencyData: EmergencyData) {
+  const { location } = emergencyData
+  return {
+    service:
+      getService(emergencyData.serviceNeeded)?.spoken ||
+      emergencyData.serviceNeeded,
+    description: withFullStop(emergencyData.description),
+    address: emergencyData.manualAddress?.trim() || '',
+    latitude: location ? location.latitude.toFixed(4) : '',
+    longitude: location ? location.longitude.toFixed(4) : '',
+    triage: buildTriageSentences(emergencyData.triage).join(' '),
+  } as Record<string, string>
+}
+
+function fill(wording: string, values: Record<string, string>): string | null {
+  let isComplete = true
+  const text = wording.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = values[name]
+    if (!value) isComplete = false
+    return value || ''
+  })
+  return isComplete ? text : null
+}
+
+// Shorten text to its first `words` words
+function shorten(text: string, words: number): string {
+  const kept = text.split(/\s+/).slice(0, words).join(' ')
+  return `${kept.replace(/[,;:.!?]+$/, '')}${SHORTENED_SUFFIX}`
+}
+
+export function composeEmergencyMessage(
+  emergencyData: EmergencyData,
+  options: ComposeOptions = {}
+): ComposedMessage {
+  const targetSeconds = options.targetSeconds ?? TARGET_SECONDS
+  const values = { ...placeholderValues(emergencyData), ...options.values }
+  const locale =
+    options.locale && hasTemplates(options.locale) ? options.locale : 'en'
+
+  const sections = templateFor(emergencyData.serviceNeeded, locale).flatMap(
+    (template) => {
+      for (const wording of template.text) {
+        const text = fill(wording, values)
+        if (text) return [{ template, text, shortened: false }]
+      }
+      return []
+    }
+  )
+
+  const total = () =>
+    estimateSpokenSeconds(sections.map((section) => section.text).join(' '))
+
+  const dropped: string[] = []
+  const byPriority = sections
+    .filter((section) => section.template.priority > 0)
+    .sort((a, b) => b.template.priority - a.template.priority)
+
+  for (const section of byPriority) {
+    if (total() <= targetSeconds) break
+
+    const { minWords } = section.template
+    if (minWords === undefined) {
+      sections.splice(sections.indexOf(section), 1)
+      dropped.push(section.template.id)
+      continue
+    }
+
+    const full = section.text
+    const wordCount = full.split(/\s+/).length
+    if (wordCount <= minWords) continue
+
+    // The most words that fit, found by bisection; minWords if none do
+    let fits = minWords
+    let low = minWords
+    let high = wordCount - 1
+    while (low <= high) {
+      const words = Math.floor((low + high) / 2)
+      section.text = shorten(full, words)
+      if (total() <= targetSeconds) {
+        fits = words
+        low = words + 1
+      } else {
+        high = words - 1
+      }
+    }
+    section.text = shorten(full, fits)
+    section.shortened = true
+  }
+
+  const text = sections.map((section) => section.text).join(' ')
+  return {
+    text,
+    sections: sections.map(({ template, text, shortened }) => ({
+      id: template.id,
+      text,
+      shortened,
+    })),
+    dropped,
+    estimatedSeconds: estimateSpokenSeconds(text),
+    targetSeconds,
+    locale,
+  }
+}
@@ -0,0 +1,208 @@
+import { getSpeechSynthesizer, toLanguageHint } from '@/lib/speech'
+import { saveAudioFile, saveSpeech, getAudioUrl } from '@/lib/audio-storage'
+import {
+  buildPlayAndRecordTwiml,
+  buildPlayAndStreamTwiml,
+  CALL_MODE,
+  MenuPrompt,
+} from '@/lib/twilio'
+import { getTelephonyProvider } from '@/lib/telephony'
+import {
+  getSession,
+  listSessionMessages,
+  updateSession,
+  updateSessionMessage,
+} from '@/lib/sessions'
+import { resolveEmergencyNumber } from '@/lib/routing'
+import { getMediaStreamUrl } from '@/lib/url'
+import { syncSessionWithCall } from '@/lib/call-events'
+import {
+  buildEmergencyMessage,
+  buildEmergencyMessageParts,
+  buildLocalizedMessageParts,
+  translateSpokenMessage,
+} from '@/lib/emergency-message'
+import { languageOf, translateForDelivery } from '@/lib/translation'
+import { EmergencyData } from '@/lib/types'
+import { prepareQuickReplyAudio } from '@/lib/quick-reply-audio'
+import { getMenuSpeechInput, prepareMenuAnnouncement } from '@/lib/call-menu'
+
+// The keypad menu is a convenience; a call without it still goes out
+async function prepareMenuPrompt(
+  sessionId: string,
+  dispatchLanguage: string,
+  baseUrl: string
+): Promise<MenuPrompt | undefined> {
+  try {
+    const audioId = await prepareMenuAnnouncement(sessionId, dispatchLanguage)
+    return {
+      announcementUrl: getAudioUrl(baseUrl, audioId),
+      actionUrl: `${baseUrl}/api/twilio/menu`,
+      speech: getMenuSpeechInput(dispatchLanguage),
+    }
+  } catch (error) {
+    console.error('[Orchestrator] Call menu unavailable:', error)
+    return undefined
+  }
+}
+
+// The emergency message in the dispatcher's language: from its own templates
+// where there are some, else the English message translated. The intro is a
+// fixed sentence; the details hold the person's own words, so an
+// untranslated message keeps their language for speech.
+async function wordForDispatch(
+  emergencyData: EmergencyData,
+  dispatchLanguage: string
+): Promise<{
+  intro: string
+  details: string
+  introLanguage: string
+  detailsLanguage: string
+}> {
+  const localized = await buildLocalizedMessageParts(
+    emergencyData,
+    dispatchLanguage
+  )
+  if (localized) {
+    return {
+      ...localized,
+      introLanguage: dispatchLanguage,
+      detailsLanguage: dispatchLanguage,
+    }
+  }
+
+  const parts = buildEmergencyMessageParts(emergencyData)
+  const introTranslation = parts.intro
+    ? await translateForDelivery(parts.intro, 'en', dispatchLanguage)
+    : null
+  const detailsTranslation = await translateSpokenMessage(
+    emergencyData.description,
+    (description) =>
+      buildEmergencyMessageParts({ ...emergencyData, description }).details,
+    languageOf(emergencyData.browserLanguage),
+    dispatchLanguage
+  )
+  return {
+    intro: introTranslation ? introTranslation.text : parts.intro,
+    details: detailsTranslation ? detailsTranslation.text : parts.details,
+    introLanguage: introTranslation ? introTranslation.language : 'en',
+    detailsLanguage: detailsTranslation
+      ? detailsTranslation.language
+      : emergencyData.browserLanguage,
+  }
+}
+
+// Runs the whole call startup on the server: word the emergency message for
+// the dispatcher, synthesize it, host the audio and dial. The opening
+// sentence is synthesized on its own so every call reuses its cached audio.
+// Never throws; failures are recorded on the session.
+export async function runEmergencySession(
+  sessionId: string,
+  baseUrl: string
+): Promise<void> {
+  try {
+    const session = await getSession(sessionId)
+    if (!session) {
+      console.error('[Orchestrator] Unknown session:', sessionId)
+      return
+    }
+
+    const telephony = getTelephonyProvider()
+    if (!telephony.isConfigured() || !telephony.callerId) {
+      throw new Error('Missing Twilio environment variables')
+    }
+
+    const routing = resolveEmergencyNumber(session.emergencyData)
+
+    await updateSession(sessionId, { status: 'synthesizing' })
+    const { intro, details, introLanguage, detailsLanguage } =
+      await wordForDispatch(session.emergencyData, routing.language)
+
+    const spokenText = [intro, details].filter(Boolean).join(' ')
+    if (spokenText !== buildEmergencyMessage(session.emergencyData)) {
+      // The emergency message is always the session's first message
+      const [emergencyMessage] = await listSessionMessages(sessionId)
+      if (emergencyMessage) {
+        await updateSessionMessage(sessionId, emergencyMessage.id, {
+          translation: { text: spokenText, language: detailsLanguage },
+          spokenText,
+        })
+      }
+    }
+
+    const synthesizer = getSpeechSynthesizer()
+    const introUrl = intro
+      ? getAudioUrl(
+          baseUrl,
+          await saveSpeech(
+            sessionId,
+            await synthesizer.synthesize(intro, {
+              language: toLanguageHint(introLanguage),
+              cache: true,
+            })
+          )
+        )
+      : undefined
+    const { audio, contentType } = await synthesizer.synthesize(details, {
+      language: toLanguageHint(detailsLanguage),
+    })
+    const filename = await saveAudioFile(sessionId, audio, contentType)
+    const audioUrl = getAudioUrl(baseUrl, filename)
+    const playlist = introUrl ? [introUrl, audioUrl] : audioUrl
+    const menu = await prepareMenuPrompt(sessionId, routing.language, baseUrl)
+
+    await updateSession(sessionId, {
+      status: 'dialing',
+      audioUrl,
+      introAudioUrl: introUrl,
+      routing,
+    })
+    console.log('[Orchestrator] Dialing for session:', sessionId, routing)
+
+    const callbackUrl = `${baseUrl}/api/twilio/recording-callback`
+    const twiml =
+      CALL_MODE === 'stream'
+        ? buildPlayAndStreamTwiml(
+            playlist,
+            getMediaStreamUrl(baseUrl),
+            sessionId,
+            callbackUrl,
+            menu
+          )
+        : buildPlayAndRecordTwiml(playlist, callbackUrl, 15, menu)
+
+    const call = await telephony.placeCall({
+      to: routing.dialNumber,
+      from: telephony.callerId,
+      twiml,
+      statusCallback: `${baseUrl}/api/twilio/status-callback`,
+    })
+
+    // From here on the provider's status callbacks drive the session's status
+    await updateSession(sessionId, { callSid: call.sid })
+    await syncSessionWithCall(call.sid)
+    console.log('[Orchestrator] Call initiated:', {
+      sessionId,
+      callSid: call.sid,
+    })
+
+    // Ready before the operator answers, so quick replies play instantly
+    prepareQuickReplyAudio({ ...session, routing }).catch((error) =>
+      console.error('[Orchestrator] Quick reply preparation failed:', error)
+    )
+  } catch (error) {
+    console.error('[Orchestrator] Session failed:', sessionId, error)
+    try {
+      await updateSession(sessionId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } catch (updateError) {
+      console.error(
+        '[Orchestrator] Could not record the failure:',
+        sessionId,
+        updateError
+      )
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto'
+import { SynthesisOptions } from '@/lib/speech'
+import { getSignedUrl, isValidUrlSignature } from '@/lib/audio-storage'
+
+// Text waiting to be synthesized on demand when Twilio fetches its <Play>
+// URL. Lets a message reach the call without first rendering and uploading
+// a whole MP3. URLs are signed like hosted audio, and entries expire so a
+// leaked URL stops working.
+
+const PENDING_SPEECH_TTL_MS = 5 * 60 * 1000
+
+export interface PendingSpeech {
+  text: string
+  // Voice settings such as a slower speed; the format is up to the route
+  options: SynthesisOptions
+  expiresAt: number
+}
+
+const globalForSpeech = globalThis as unknown as {
+  pendingSpeech?: Map<string, PendingSpeech>
+}
+const pendingSpeech =
+  globalForSpeech.pendingSpeech ??
+  (globalForSpeech.pendingSpeech = new Map<string, PendingSpeech>())
+
+export function createPendingSpeech(
+  text: string,
+  options: SynthesisOptions = {}
+): string {
+  const now = Date.now()
+  for (const [id, entry] of Array.from(pendingSpeech.entries())) {
+    if (entry.expiresAt < now) pendingSpeech.delete(id)
+  }
+
+  const id = randomUUID()
+  pendingSpeech.set(id, {
+    text,
+    options,
+    expiresAt: now + PENDING_SPEECH_TTL_MS,
+  })
+  return id
+}
+
+export function getPendingSpeech(id: string): PendingSpeech | null {
+  const entry = pendingSpeech.get(id)
+  if (!entry || entry.expiresAt < Date.now()) return null
+  return entry
+}
+
+function pendingSpeechPath(id: string): string {
+  return `/api/tts/stream/${id}`
+}
+
+export function getPendingSpeechUrl(baseUrl: string, id: string): string {
+  return getSignedUrl(baseUrl, pendingSpeechPath(id), PENDING_SPEECH_TTL_MS)
+}
+
+export function isValidPendingSpeechSignature(
+  id: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  return isValidUrlSignature(pendingSpeechPath(id), expires, signature)
+}
@@ -0,0 +1,71 @@
+import { getService } from '@/lib/services'
+import { sanitizeTriage, TriageAnswers } from '@/lib/triage'
+
+// One-tap SOS presets, kept in this browser's localStorage and never sent
+// anywhere until one is launched. A preset holds everything the form asks
+// for except the live location, which is taken at launch; the home address
+// is used when no position can be had. Entries that no longer match the
+// service catalog are dropped on load.
+
+export interface SosPreset {
+  id: string
+  name: string
+  serviceNeeded: string
+  description: string
+  homeAddress: string | null
+  triage: TriageAnswers | null
+}
+
+const STORAGE_KEY = 'sosbridge:presets'
+
+// Bump when the stored shape changes; older data is ignored
+const STORAGE_VERSION = 1
+
+function sanitizePreset(value: unknown): SosPreset | null {
+  if (!value || typeof value !== 'object') return null
+  const preset = value as Record<string, unknown>
+
+  if (
+    typeof preset.id !== 'string' ||
+    typeof preset.name !== 'string' ||
+    typeof preset.serviceNeeded !== 'string' ||
+    typeof preset.description !== 'string' ||
+    !getService(preset.serviceNeeded)
+  ) {
+    return null
+  }
+
+  return {
+    id: preset.id,
+    name: preset.name,
+    serviceNeeded: preset.serviceNeeded,
+    description: preset.description,
+    homeAddress:
+      typeof preset.homeAddress === 'string' && preset.homeAddress.trim()
+        ? preset.homeAddress.trim()
+        : null,
+    triage: sanitizeTriage(preset.serviceNeeded, preset.triage),
+  }
+}
+
+export function loadPresets(): SosPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    if (!stored || stored.version !== STORAGE_VERSION) return []
+    return (Array.isArray(stored.presets) ? stored.presets : [])
+      .map(sanitizePreset)
+      .filter((preset: SosPreset | null): preset is SosPreset =>
+        Boolean(preset)
+      )
+  } catch (error) {
+    console.error('[Presets] Error loading presets:', error)
+    return []
+  }
+}
+
+export function savePresets(presets: SosPreset[]): void {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({ version: STORAGE_VERSION, presets })
+  )
+}
@@ -0,0 +1,47 @@
+import config from '@/config/quick-replies.json'
+
+// Tap-to-send replies for the chat, backed by config/quick-replies.json.
+// Each phrase is written once per language, and each service lists the
+// phrases it offers. English is required and is what gets spoken (and
+// translated for the dispatcher); the person sees their own language.
+
+export interface QuickReply {
+  id: string
+  // In the person's language when the phrase has it, English otherwise
+  label: string
+}
+
+const phrases = config.phrases as Record<string, Record<string, string>>
+const services = config.services as Record<string, string[]>
+
+export function isQuickReplyId(id: unknown): id is string {
+  return (
+    typeof id === 'string' && Object.prototype.hasOwnProperty.call(phrases, id)
+  )
+}
+
+function phraseText(phrase: Record<string, string>, language: string | null) {
+  return (language && phrase[language]) || phrase.en
+}
+
+export function getQuickReplyText(
+  id: string,
+  language: string | null
+): string | null {
+  return isQuickReplyId(id) ? phraseText(phrases[id], language) : null
+}
+
+export function getQuickReplyIds(serviceNeeded: string): string[] {
+  return (services[serviceNeeded] || services.default).filter(isQuickReplyId)
+}
+
+export function getQuickReplies(
+  serviceNeeded: string,
+  locale: string | null | undefined
+): QuickReply[] {
+  const language = locale?.split(/[-_]/)[0].toLowerCase() || null
+  return getQuickReplyIds(serviceNeeded).map((id) => ({
+    id,
+    label: phraseText(phrases[id], language),
+  }))
+}
@@ -0,0 +1,111 @@
+import { readAudioFile, saveSpeech } from '@/lib/audio-storage'
+import {
+  frameTypedMessage,
+  translateSpokenMessage,
+} from '@/lib/emergency-message'
+import { buildMulawWav, MULAW_WAV_HEADER_BYTES } from '@/lib/media-stream/audio'
+import { getQuickReplyIds, getQuickReplyText } from '@/lib/quick-replies'
+import { Session } from '@/lib/sessions'
+import { getSpeechSynthesizer, toLanguageHint } from '@/lib/speech'
+import { Translation } from '@/lib/translation'
+
+// Quick replies are synthesized while the call rings, so tapping one plays
+// it without waiting for speech synthesis. The audio is 8 kHz mu-law WAV:
+// phone quality, playable by <Play>, and its samples go straight into a
+// media stream. Like other cached speech it is hosted once and shared by
+// every call that uses it.
+
+// Drop prepared replies with the audio they point at
+const PREPARED_TTL_MS = 60 * 60 * 1000
+
+export interface PreparedQuickReply {
+  // What the operator hears, in the dispatch language when translated
+  spokenText: string
+  translation: Translation | null
+  audioId: string
+}
+
+interface PreparedSession {
+  replies: Map<string, PreparedQuickReply>
+  preparedAt: number
+}
+
+const globalForReplies = globalThis as unknown as {
+  quickReplyAudio?: Map<string, PreparedSession>
+}
+const preparedSessions =
+  globalForReplies.quickReplyAudio ??
+  (globalForReplies.quickReplyAudio = new Map<string, PreparedSession>())
+
+async function prepareReply(
+  session: Session,
+  id: string
+): Promise<PreparedQuickReply> {
+  const english = getQuickReplyText(id, 'en') || id
+  const dispatchLanguage = session.routing?.language || null
+  const translation = await translateSpokenMessage(
+    english,
+    frameTypedMessage,
+    'en',
+    dispatchLanguage
+  )
+  const spokenText = translation ? translation.text : frameTypedMessage(english)
+
+  const speech = await getSpeechSynthesizer().synthesize(spokenText, {
+    format: 'ulaw_8000',
+    language: toLanguageHint(translation ? translation.language : 'en'),
+    // The same phrases come up in every call for this service
+    cache: true,
+  })
+  const audioId = await saveSpeech(session.id, {
+    ...speech,
+    audio: buildMulawWav(speech.audio),
+    contentType: 'audio/wav',
+  })
+  return { spokenText, translation, audioId }
+}
+
+// Synthesize every quick reply the session's service offers. Replies that
+// fail are left out and fall back to live synthesis when tapped.
+export async function prepareQuickReplyAudio(session: Session) {
+  const now = Date.now()
+  for (const [id, entry] of Array.from(preparedSessions.entries())) {
+    if (entry.preparedAt + PREPARED_TTL_MS < now) preparedSessions.delete(id)
+  }
+
+  const prepared: PreparedSession = { replies: new Map(), preparedAt: now }
+  preparedSessions.set(session.id, prepared)
+
+  for (const id of getQuickReplyIds(session.emergencyData.serviceNeeded)) {
+    try {
+      prepared.replies.set(id, await prepareReply(session, id))
+    } catch (error) {
+      console.error('[Quick Replies] Failed to prepare reply:', id, error)
+    }
+  }
+  console.log('[Quick Replies] Prepared replies for session:', {
+    sessionId: session.id,
+    count: prepared.replies.size,
+  })
+}
+
+export function getPreparedQuickReply(
+  sessionId: string,
+  id: string
+): PreparedQuickReply | null {
+  return preparedSessions.get(sessionId)?.replies.get(id) || null
+}
+
+export function listPreparedQuickReplies(
+  sessionId: string
+): PreparedQuickReply[] {
+  return Array.from(preparedSessions.get(sessionId)?.replies.values() || [])
+}
+
+// Raw mu-law samples for a media stream, or null once the audio is swept
+export async function readQuickReplySamples(
+  reply: PreparedQuickReply
+): Promise<Buffer | null> {
+  const file = await readAudioFile(reply.audioId)
+  return file ? file.audio.subarray(MULAW_WAV_HEADER_BYTES) : null
+}
@@ -0,0 +1,265 @@
+import directory from '@/config/emergency-numbers.json'
+import { EmergencyData } from '@/lib/types'
+import {
+  escalationFor,
+  getService,
+  listServices,
+  serviceNumberFor,
+} from '@/lib/services'
+
+// Emergency number routing, backed by config/emergency-numbers.json. Each
+// country lists a general number plus optional police/fire/ambulance numbers
+// where they differ, and coarse [minLat, minLng, maxLat, maxLng] boxes used to
+// place coordinates when no country code is known, and the language its
+// operators speak (ISO 639-1). Where boxes overlap the smallest wins, so
+// countries with irregular borders list several tight boxes rather than one
+// that takes in their neighbours' cities. Bump "version" on edits.
+//
+// Which line a service uses comes from the service catalog
+// (config/services.json). A service with its own number in the detected
+// country, such as a crisis line, is dialled there instead of the line,
+// unless its triage answers escalate it to an emergency line.
+
+export type ServiceLine = 'general' | 'police' | 'fire' | 'ambulance'
+
+export type RoutingSource =
+  | 'override'
+  | 'country'
+  | 'coordinates'
+  | 'address'
+  | 'default'
+
+export interface RoutingResult {
+  // The emergency line for this person
+  number: string
+  // What Twilio actually dials; differs only when CALLEE_NUMBER redirects
+  // test calls away from real emergency lines
+  dialNumber: string
+  countryCode: string | null
+  countryName: string | null
+  // What the operator is expected to speak, for translation
+  language: string
+  line: ServiceLine
+  // The catalog service whose own number this is, or null for a line
+  service: string | null
+  source: RoutingSource
+  directoryVersion: string
+}
+
+// What clients may see of a routing result. The number actually dialled
+// stays on the server, since in test mode it is someone's own phone.
+export type PublicRouting = Omit<RoutingResult, 'dialNumber'> & {
+  // Calls are redirected to a test number instead of `number`
+  testMode: boolean
+}
+
+export interface DialOption {
+  number: string
+  countryCode: string
+  countryName: string
+  line: ServiceLine
+  service: string | null
+}
+
+interface CountryEntry {
+  name: string
+  language: string
+  aliases: string[]
+  bounds: number[][]
+  numbers: Partial<Record<ServiceLine, string>> & { general: string }
+}
+
+// Development/testing: dial this number instead of the resolved line
+const CALLEE_NUMBER = process.env.CALLEE_NUMBER
+
+const countries = directory.countries as Record<string, CountryEntry>
+
+export const DIRECTORY_VERSION = directory.version
+
+// Where boxes overlap, the smallest one decides
+export function countryFromCoordinates(
+  latitude: number,
+  longitude: number
+): string | null {
+  let best: { code: string; area: number } | null = null
+
+  for (const [code, entry] of Object.entries(countries)) {
+    for (const [minLat, minLng, maxLat, maxLng] of entry.bounds) {
+      if (
+        latitude >= minLat &&
+        latitude <= maxLat &&
+        longitude >= minLng &&
+        longitude <= maxLng
+      ) {
+        const area = (maxLat - minLat) * (maxLng - minLng)
+        if (!best || area < best.area) {
+          best = { code, area }
+        }
+      }
+    }
+  }
+
+  return best ? best.code : null
+}
+
+// Match the trailing parts of a free-text address against country names
+export function countryFromAddress(address: string): string | null {
+  const parts = address
+    .split(',')
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean)
+    .reverse()
+
+  for (const part of parts.slice(0, 2)) {
+    for (const [code, entry] of Object.entries(countries)) {
+      if (
+        part === code.toLowerCase() ||
+        part === entry.name.toLowerCase() ||
+        entry.aliases.includes(part)
+      ) {
+        return code
+      }
+    }
+  }
+
+  return null
+}
+
+function detectCountry(
+  emergencyData: EmergencyData
+): { code: string; source: RoutingSource } | null {
+  const countryCode = emergencyData.countryCode?.toUpperCase()
+  if (countryCode && countries[countryCode]) {
+    return { code: countryCode, source: 'country' }
+  }
+
+  if (emergencyData.location) {
+    const code = countryFromCoordinates(
+      emergencyData.location.latitude,
+      emergencyData.location.longitude
+    )
+    if (code) return { code, source: 'coordinates' }
+  }
+
+  if (emergencyData.manualAddress) {
+    const code = countryFromAddress(emergencyData.manualAddress)
+    if (code) return { code, source: 'address' }
+  }
+
+  return null
+}
+
+// Every number in the directory and the service catalog. Manual overrides
+// must be one of these so the app can never be used to dial arbitrary numbers.
+export function listDialOptions(): DialOption[] {
+  const options: DialOption[] = []
+  for (const [code, entry] of Object.entries(countries)) {
+    for (const [line, number] of Object.entries(entry.numbers)) {
+      options.push({
+        number: number as string,
+        countryCode: code,
+        countryName: entry.name,
+        line: line as ServiceLine,
+        service: null,
+      })
+    }
+  }
+  for (const service of listServices()) {
+    for (const [code, number] of Object.entries(service.numbers)) {
+      options.push({
+        number,
+        countryCode: code,
+        countryName: countries[code]?.name || code,
+        line: service.line,
+        service: service.id,
+      })
+    }
+  }
+  return options
+}
+
+export function isDirectoryNumber(number: string): boolean {
+  return listDialOptions().some((option) => option.number === number)
+}
+
+export function resolveEmergencyNumber(
+  emergencyData: EmergencyData
+): RoutingResult {
+  const result = resolveDirectoryNumber(emergencyData)
+  return { ...result, dialNumber: CALLEE_NUMBER || result.number }
+}
+
+export function toPublicRouting({
+  dialNumber,
+  ...routing
+}: RoutingResult): PublicRouting {
+  return { ...routing, testMode: dialNumber !== routing.number }
+}
+
+function resolveDirectoryNumber(
+  emergencyData: EmergencyData
+): Omit<RoutingResult, 'dialNumber'> {
+  const service = getService(emergencyData.serviceNeeded)
+  // Immediate danger goes to an emergency line, not the service's own number
+  const escalation = service && escalationFor(service, emergencyData.triage)
+  const line = escalation || service?.line || 'general'
+  const country = detectCountry(emergencyData)
+  const entry = country ? countries[country.code] : null
+
+  const override = emergencyData.dialOverride
+    ? listDialOptions().find(
+        (option) => option.number === emergencyData.dialOverride
+      )
+    : null
+  if (override) {
+    return {
+      number: override.number,
+      countryCode: country?.code || null,
+      countryName: entry?.name || null,
+      language: entry?.language || directory.default.language,
+      line,
+      service: override.service,
+      source: 'override',
+      directoryVersion: DIRECTORY_VERSION,
+    }
+  }
+
+  if (country && entry) {
+    const serviceNumber =
+      service && !escalation && serviceNumberFor(service, country.code)
+    if (service && serviceNumber) {
+      return {
+        number: serviceNumber,
+        countryCode: country.code,
+        countryName: entry.name,
+        language: entry.language,
+        line,
+        service: service.id,
+        source: country.source,
+        directoryVersion: DIRECTORY_VERSION,
+      }
+    }
+
+    return {
+      number: entry.numbers[line] || entry.numbers.general,
+      countryCode: country.code,
+      countryName: entry.name,
+      language: entry.language,
+      line: entry.numbers[line] ? line : 'general',
+      service: null,
+      source: country.source,
+      directoryVersion: DIRECTORY_VERSION,
+    }
+  }
+
+  return {
+    number: directory.default.general,
+    countryCode: null,
+    countryName: null,
+    language: directory.default.language,
+    line: 'general',
+    service: null,
+    source: 'default',
+    directoryVersion: DIRECTORY_VERSION,
+  }
+}
@@ -0,0 +1,151 @@
+import catalog from '@/config/services.json'
+import triageConfig from '@/config/triage.json'
+import type { ServiceLine } from '@/lib/routing'
+import type { TriageAnswers } from '@/lib/triage'
+
+// The emergency service catalog, backed by config/services.json. Each service
+// has what the form shows (label, description, a lucide icon name and
+// Tailwind color classes), the directory line it is routed to, the phrase
+// the operator hears ("They need {spoken}."), the triage questions it asks,
+// and optional numbers of its own keyed by country code, dialled instead of
+// the line there. A service with its own number can escalate to an emergency
+// line when triage answers show immediate danger: a domestic violence hotline
+// is no help while the attacker is still there. Primary services are the
+// large tiles on the form. Services are listed in display order. Bump
+// "version" on edits.
+//
+// The catalog is checked when this module loads, so a mistake in it fails at
+// once rather than during a call.
+
+// Icon names a service may use; components/ServiceIcon.tsx draws each one
+export const SERVICE_ICONS = [
+  'shield',
+  'shield-alert',
+  'siren',
+  'flame',
+  'heart',
+  'heart-handshake',
+  'ambulance',
+  'stethoscope',
+  'pill',
+  'anchor',
+  'life-buoy',
+  'waves',
+  'mountain',
+  'snowflake',
+  'tree-pine',
+  'fuel',
+  'zap',
+  'biohazard',
+  'wind',
+  'house',
+  'car',
+  'baby',
+  'dog',
+  'phone',
+] as const
+
+export type ServiceIconName = (typeof SERVICE_ICONS)[number]
+
+export interface EscalationRule {
+  // The directory line dialled instead of the service's own number
+  line: ServiceLine
+  // Question id -> the answers that escalate; any one match is enough
+  when: Record<string, string[]>
+}
+
+export interface ServiceDefinition {
+  id: string
+  label: string
+  description: string
+  icon: ServiceIconName
+  color: string
+  primary: boolean
+  line: ServiceLine
+  spoken: string
+  triage: string[]
+  numbers: Record<string, string>
+  escalateTo?: EscalationRule
+}
+
+const LINES: ServiceLine[] = ['general', 'police', 'fire', 'ambulance']
+
+const triageQuestions = triageConfig.questions as Record<
+  string,
+  { answers: Record<string, unknown> }
+>
+
+function checkService(service: ServiceDefinition): void {
+  const fail = (problem: string) => {
+    throw new Error(`config/services.json: ${service.id} ${problem}`)
+  }
+
+  if (!(SERVICE_ICONS as readonly string[]).includes(service.icon)) {
+    fail(`uses unknown icon "${service.icon}"`)
+  }
+  if (!LINES.includes(service.line)) {
+    fail(`uses unknown line "${service.line}"`)
+  }
+  for (const questionId of service.triage) {
+    if (!triageQuestions[questionId]) {
+      fail(`asks unknown triage question "${questionId}"`)
+    }
+  }
+
+  if (!service.escalateTo) return
+  if (!LINES.includes(service.escalateTo.line)) {
+    fail(`escalates to unknown line "${service.escalateTo.line}"`)
+  }
+  for (const [questionId, answerIds] of Object.entries(
+    service.escalateTo.when
+  )) {
+    if (!service.triage.includes(questionId)) {
+      fail(`escalates on "${questionId}", which it does not ask`)
+    }
+    for (const answerId of answerIds) {
+      if (!(answerId in triageQuestions[questionId].answers)) {
+        fail(`escalates on unknown answer "${questionId}: ${answerId}"`)
+      }
+    }
+  }
+}
+
+const services = catalog.services as ServiceDefinition[]
+services.forEach(checkService)
+
+export const CATALOG_VERSION = catalog.version
+
+export function listServices(): ServiceDefinition[] {
+  return services
+}
+
+export function getService(id: string): ServiceDefinition | null {
+  return services.find((service) => service.id === id) || null
+}
+
+// The service's own number in a country, when it has one
+export function serviceNumberFor(
+  service: ServiceDefinition,
+  countryCode: string
+): string | null {
+  return Object.prototype.hasOwnProperty.call(service.numbers, countryCode)
+    ? service.numbers[countryCode]
+    : null
+}
+
+// The line to dial instead of the service's own number, when the triage
+// answers match its escalation rule
+export function escalationFor(
+  service: ServiceDefinition,
+  triage: TriageAnswers | null | undefined
+): ServiceLine | null {
+  const rule = service.escalateTo
+  if (!rule || !triage) return null
+
+  const matches = Object.entries(rule.when).some(
+    ([questionId, answerIds]) =>
+      Object.prototype.hasOwnProperty.call(triage, questionId) &&
+      answerIds.includes(triage[questionId])
+  )
+  return matches ? rule.line : null
+}
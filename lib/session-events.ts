@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto'
+
+// Per-session event log that feeds the SSE endpoint. Every event gets an id
+// of this process's epoch and an increasing number, so a reconnecting client
+// can resume with Last-Event-ID. Ids from another process (an earlier run, or
+// another instance that published the events) can't be resumed from here;
+// those clients get a snapshot rebuilt from storage instead. Logs are dropped
+// a while after the session ends. On globalThis so the media stream server
+// and route handlers share it.
+
+export type SessionEvent =
+  | {
+      type: 'status'
+      data: {
+        status: string
+        callSid: string | null
+        endReason: string | null
+        error: string | null
+      }
+    }
+  | {
+      type: 'transcript'
+      // `text` is in the person's language; `originalText` is what the
+      // operator said when it had to be translated
+      data: {
+        id: string
+        text: string
+        originalText: string | null
+        timestamp: number
+      }
+    }
+  | {
+      type: 'message'
+      data: {
+        id: string
+        // The chat's own key for a message it sent
+        clientId?: string
+        state: 'sending' | 'delivered' | 'failed'
+        error?: string
+        // What the operator heard, when it was translated
+        spokenText?: string
+      }
+    }
+  | {
+      type: 'menu'
+      // The operator used the call's keypad menu
+      data: {
+        id: string
+        key: string
+        label: string
+        timestamp: number
+      }
+    }
+
+export type LoggedSessionEvent = SessionEvent & { id: string }
+
+type Listener = (event: LoggedSessionEvent) => void
+
+interface SessionEventLog {
+  nextSeq: number
+  events: { seq: number; event: LoggedSessionEvent }[]
+  listeners: Set<Listener>
+  pruneTimer: ReturnType<typeof setTimeout> | null
+}
+
+// Older events are dropped; a client that far behind gets a snapshot
+const MAX_LOGGED_EVENTS = 500
+
+// How long an ended session's log is kept for clients still catching up
+const ENDED_LOG_RETENTION_MS = 10 * 60 * 1000
+
+const globalForEvents = globalThis as unknown as {
+  sessionEventLogs?: Map<string, SessionEventLog>
+  sessionEventEpoch?: string
+}
+const sessionEventLogs =
+  globalForEvents.sessionEventLogs ??
+  (globalForEvents.sessionEventLogs = new Map<string, SessionEventLog>())
+const EPOCH =
+  globalForEvents.sessionEventEpoch ??
+  (globalForEvents.sessionEventEpoch = randomUUID().slice(0, 8))
+
+function eventId(seq: number): string {
+  return `${EPOCH}.${seq}`
+}
+
+function getLog(sessionId: string): SessionEventLog {
+  let log = sessionEventLogs.get(sessionId)
+  if (!log) {
+    log = { nextSeq: 1, events: [], listeners: new Set(), pruneTimer: null }
+    sessionEventLogs.set(sessionId, log)
+  }
+  return log
+}
+
+// Once a session has ended nothing more is published, so its log only
+// serves reconnects for a while. Later reconnects get a snapshot.
+function schedulePrune(sessionId: string, log: SessionEventLog) {
+  if (log.pruneTimer) clearTimeout(log.pruneTimer)
+  log.pruneTimer = setTimeout(() => {
+    if (sessionEventLogs.get(sessionId) === log) {
+      sessionEventLogs.delete(sessionId)
+    }
+  }, ENDED_LOG_RETENTION_MS)
+  log.pruneTimer.unref?.()
+}
+
+export function publishSessionEvent(sessionId: string, event: SessionEvent) {
+  const log = getLog(sessionId)
+  const seq = log.nextSeq++
+  const logged = { ...event, id: eventId(seq) } as LoggedSessionEvent
+
+  log.events.push({ seq, event: logged })
+  if (log.events.length > MAX_LOGGED_EVENTS) {
+    log.events.shift()
+  }
+
+  if (
+    event.type === 'status' &&
+    (event.data.status === 'ended' || event.data.status === 'failed')
+  ) {
+    schedulePrune(sessionId, log)
+  }
+
+  log.listeners.forEach((listener) => {
+    try {
+      listener(logged)
+    } catch (error) {
+      console.error('[Session Events] Listener error:', error)
+    }
+  })
+}
+
+// Where a client left off in this process's log, or null when that can't be
+// told: no id, an id from another process, or one older than the log keeps
+function resumePoint(
+  log: SessionEventLog,
+  lastEventId: string | null
+): number | null {
+  const match = lastEventId?.match(/^(\w+)\.(\d+)$/)
+  if (!match || match[1] !== EPOCH) return null
+
+  const seq = parseInt(match[2])
+  const oldest = log.events[0]
+  if (seq >= log.nextSeq || (oldest && seq < oldest.seq - 1)) return null
+  return seq
+}
+
+// Replays events after `lastEventId`, then delivers new ones as they happen.
+// A client with no usable id first gets `readSnapshot`'s events, all tagged
+// with the current position so it resumes from here next time. Events
+// published while the snapshot is read are held and delivered after it.
+// Resolves to an unsubscribe function.
+export async function subscribeToSession(
+  sessionId: string,
+  lastEventId: string | null,
+  listener: Listener,
+  readSnapshot: () => Promise<SessionEvent[]>
+): Promise<() => void> {
+  const log = getLog(sessionId)
+  const after = resumePoint(log, lastEventId)
+
+  if (after !== null) {
+    log.events
+      .filter(({ seq }) => seq > after)
+      .forEach(({ event }) => listener(event))
+  } else {
+    const held: LoggedSessionEvent[] = []
+    const hold = (event: LoggedSessionEvent) => held.push(event)
+    const position = eventId(log.nextSeq - 1)
+
+    log.listeners.add(hold)
+    try {
+      const snapshot = await readSnapshot()
+      snapshot.forEach((event) => {
+        listener({ ...event, id: position } as LoggedSessionEvent)
+        if (
+          event.type === 'status' &&
+          (event.data.status === 'ended' || event.data.status === 'failed')
+        ) {
+          schedulePrune(sessionId, log)
+        }
+      })
+    } finally {
+      log.listeners.delete(hold)
+    }
+    held.forEach((event) => listener(event))
+  }
+
+  log.listeners.add(listener)
+  return () => {
+    log.listeners.delete(listener)
+  }
+}
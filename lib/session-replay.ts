@@ -0,0 +1,64 @@
+import { getSession, listSessionMessages } from '@/lib/sessions'
+import { SessionEvent } from '@/lib/session-events'
+import { getMenuLabel } from '@/lib/call-menu'
+
+// A session's state as the events that would have produced it, for clients
+// that can't resume from the in-memory log: after a restart, or when their
+// events were published by another instance. The chat ignores transcripts
+// and key presses it already has, so overlap with live events is harmless.
+export async function readSessionSnapshot(
+  sessionId: string
+): Promise<SessionEvent[]> {
+  const [session, messages] = await Promise.all([
+    getSession(sessionId),
+    listSessionMessages(sessionId),
+  ])
+  if (!session) return []
+
+  const events: SessionEvent[] = [
+    {
+      type: 'status',
+      data: {
+        status: session.status,
+        callSid: session.callSid,
+        endReason: session.endReason,
+        error: session.error,
+      },
+    },
+  ]
+
+  for (const message of messages) {
+    if (message.direction === 'inbound' && message.menuKey) {
+      events.push({
+        type: 'menu',
+        data: {
+          id: message.id,
+          key: message.menuKey,
+          label: getMenuLabel(message.menuKey) || message.text,
+          timestamp: message.timestamp,
+        },
+      })
+    } else if (message.direction === 'inbound') {
+      events.push({
+        type: 'transcript',
+        data: {
+          id: message.id,
+          text: message.translation ? message.translation.text : message.text,
+          originalText: message.translation ? message.text : null,
+          timestamp: message.timestamp,
+        },
+      })
+    } else if (message.deliveryStatus) {
+      events.push({
+        type: 'message',
+        data: {
+          id: message.id,
+          state: message.deliveryStatus,
+          ...(message.spokenText && { spokenText: message.spokenText }),
+        },
+      })
+    }
+  }
+
+  return events
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto'
+import { EmergencyData } from '@/lib/types'
+import { publishSessionEvent } from '@/lib/session-events'
+import {
+  getStorage,
+  Session,
+  SessionMessage,
+  SessionStatus,
+} from '@/lib/storage'
+
+export type { Session, SessionMessage, SessionStatus }
+
+// Updates read, merge and write the whole session, so two running at once
+// (say the orchestrator and a status callback) could lose one of them.
+// Message updates read and rewrite a message the same way. Both run one at a
+// time per session instead.
+const globalForSessions = globalThis as unknown as {
+  sessionUpdates?: Map<string, Promise<unknown>>
+}
+const pendingUpdates =
+  globalForSessions.sessionUpdates ??
+  (globalForSessions.sessionUpdates = new Map<string, Promise<unknown>>())
+
+function queueUpdate<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = pendingUpdates.get(id) || Promise.resolve()
+  const result = previous.then(task)
+  const settled = result.catch(() => undefined)
+
+  pendingUpdates.set(id, settled)
+  settled.then(() => {
+    if (pendingUpdates.get(id) === settled) pendingUpdates.delete(id)
+  })
+  return result
+}
+
+export async function createSession(
+  emergencyData: EmergencyData,
+  emergencyMessage: string
+): Promise<Session> {
+  const now = Date.now()
+  const session: Session = {
+    id: randomUUID(),
+    status: 'starting',
+    emergencyData,
+    emergencyMessage,
+    audioUrl: null,
+    routing: null,
+    callSid: null,
+    endReason: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await getStorage().saveSession(session)
+  console.log('[Session Store] Created session:', session.id)
+  return session
+}
+
+export async function getSession(id: string): Promise<Session | null> {
+  return getStorage().getSession(id)
+}
+
+export function updateSession(
+  id: string,
+  changes: Partial<Omit<Session, 'id' | 'createdAt'>>
+): Promise<Session | null> {
+  return queueUpdate(id, () => applySessionUpdate(id, changes))
+}
+
+async function applySessionUpdate(
+  id: string,
+  changes: Partial<Omit<Session, 'id' | 'createdAt'>>
+): Promise<Session | null> {
+  const storage = getStorage()
+  const session = await storage.getSession(id)
+  if (!session) return null
+
+  const updated = { ...session, ...changes, updatedAt: Date.now() }
+  await storage.saveSession(updated)
+
+  if (
+    updated.status !== session.status ||
+    updated.callSid !== session.callSid ||
+    updated.endReason !== session.endReason ||
+    updated.error !== session.error
+  ) {
+    publishSessionEvent(id, {
+      type: 'status',
+      data: {
+        status: updated.status,
+        callSid: updated.callSid,
+        endReason: updated.endReason,
+        error: updated.error,
+      },
+    })
+  }
+
+  return updated
+}
+
+export async function getSessionByCallSid(
+  callSid: string
+): Promise<Session | null> {
+  return getStorage().findSessionByCallSid(callSid)
+}
+
+// Message ids are always made here, so two messages can never share one
+export function addSessionMessage(
+  sessionId: string,
+  message: Omit<SessionMessage, 'id' | 'sessionId' | 'timestamp'> & {
+    timestamp?: number
+  }
+): Promise<SessionMessage> {
+  const stored: SessionMessage = {
+    timestamp: Date.now(),
+    ...message,
+    id: randomUUID(),
+    sessionId,
+  }
+  return queueUpdate(sessionId, async () => {
+    await getStorage().addMessage(stored)
+    return stored
+  })
+}
+
+export function updateSessionMessage(
+  sessionId: string,
+  messageId: string,
+  changes: Partial<Omit<SessionMessage, 'id' | 'sessionId'>>
+): Promise<SessionMessage | null> {
+  return queueUpdate(sessionId, () =>
+    getStorage().updateMessage(sessionId, messageId, changes)
+  )
+}
+
+export async function listSessionMessages(
+  sessionId: string
+): Promise<SessionMessage[]> {
+  return getStorage().listMessages(sessionId)
+}
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto'
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  DEFAULT_VOICE_ID,
+  DEFAULT_VOICE_SETTINGS,
+  TTS_CACHE_MAX_BYTES,
+  TTS_CACHE_TTL_MS,
+} from '@/lib/speech/config'
+import {
+  SpeechStream,
+  SpeechSynthesizer,
+  SynthesisOptions,
+  SynthesizedAudio,
+} from '@/lib/speech/types'
+
+// Content-addressed cache for synthesized speech. An entry is keyed on
+// everything that changes the audio: provider, text, voice, model, voice
+// settings, format and language. Only requests that opt in with
+// `cache: true` are cached, because most speech here holds someone's
+// emergency details and must not outlive their session's audio.
+//
+// Entries live under <dir>/<key>.audio with a <key>.json sidecar. Stale
+// entries are dropped after TTS_CACHE_TTL_MS, and the least recently used
+// go first once the cache outgrows TTS_CACHE_MAX_BYTES.
+
+export interface SpeechCacheStats {
+  hits: number
+  misses: number
+  evictions: number
+}
+
+interface CacheEntry {
+  contentType: string
+  size: number
+  createdAt: number
+  lastUsedAt: number
+}
+
+// Counters are per process and shared by every route bundle
+const globalForCache = globalThis as unknown as {
+  speechCacheStats?: SpeechCacheStats
+}
+const stats =
+  globalForCache.speechCacheStats ??
+  (globalForCache.speechCacheStats = { hits: 0, misses: 0, evictions: 0 })
+
+export function getSpeechCacheStats(): SpeechCacheStats {
+  return { ...stats }
+}
+
+export function speechCacheKey(
+  provider: string,
+  text: string,
+  options: SynthesisOptions
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        provider,
+        text,
+        options.voiceId || DEFAULT_VOICE_ID,
+        // The provider picks its model when none is given
+        options.modelId || null,
+        options.voiceSettings || DEFAULT_VOICE_SETTINGS,
+        options.format || 'mp3',
+        options.language || null,
+      ])
+    )
+    .digest('hex')
+}
+
+export class CachedSynthesizer implements SpeechSynthesizer {
+  name: string
+
+  constructor(private synthesizer: SpeechSynthesizer, private dir: string) {
+    this.name = synthesizer.name
+  }
+
+  async synthesize(
+    text: string,
+    options: SynthesisOptions = {}
+  ): Promise<SynthesizedAudio> {
+    if (!options.cache) {
+      return this.synthesizer.synthesize(text, options)
+    }
+
+    const key = speechCacheKey(this.synthesizer.name, text, options)
+    const cached = await this.read(key)
+    if (cached) {
+      stats.hits++
+      console.log('[TTS Cache] Hit:', { key: key.slice(0, 12), ...stats })
+      return { ...cached, cacheKey: key }
+    }
+
+    stats.misses++
+    console.log('[TTS Cache] Miss:', { key: key.slice(0, 12), ...stats })
+    const result = await this.synthesizer.synthesize(text, options)
+    try {
+      await this.write(key, result)
+      await this.evict()
+    } catch (error) {
+      // A cache that can't write only costs a resynthesis next time
+      console.error('[TTS Cache] Failed to store audio:', error)
+    }
+    return { ...result, cacheKey: key }
+  }
+
+  // Streams are live messages, never repeated, so they bypass the cache
+  stream(text: string, options?: SynthesisOptions): SpeechStream {
+    return this.synthesizer.stream(text, options)
+  }
+
+  private audioPath(key: string): string {
+    return join(this.dir, `${key}.audio`)
+  }
+
+  private entryPath(key: string): string {
+    return join(this.dir, `${key}.json`)
+  }
+
+  private async read(key: string): Promise<SynthesizedAudio | null> {
+    let entry: CacheEntry
+    let audio: Buffer
+    try {
+      entry = JSON.parse(await readFile(this.entryPath(key), 'utf8'))
+      audio = await readFile(this.audioPath(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+
+    const now = Date.now()
+    if (entry.createdAt + TTS_CACHE_TTL_MS < now) {
+      await this.remove(key)
+      stats.evictions++
+      return null
+    }
+
+    await writeFile(
+      this.entryPath(key),
+      JSON.stringify({ ...entry, lastUsedAt: now })
+    )
+    return { audio, contentType: entry.contentType }
+  }
+
+  private async write(key: string, { audio, contentType }: SynthesizedAudio) {
+    await mkdir(this.dir, { recursive: true })
+    const now = Date.now()
+    const entry: CacheEntry = {
+      contentType,
+      size: audio.length,
+      createdAt: now,
+      lastUsedAt: now,
+    }
+    // Audio first, so an entry never points at a missing file
+    await writeFile(this.audioPath(key), audio)
+    await writeFile(this.entryPath(key), JSON.stringify(entry))
+  }
+
+  private async remove(key: string) {
+    await rm(this.audioPath(key), { force: true })
+    await rm(this.entryPath(key), { force: true })
+  }
+
+  private async evict() {
+    const now = Date.now()
+    const entries: (CacheEntry & { key: string })[] = []
+
+    for (const file of await readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue
+      const key = file.slice(0, -'.json'.length)
+      try {
+        const entry: CacheEntry = JSON.parse(
+          await readFile(this.entryPath(key), 'utf8')
+        )
+        // Sizes come from the audio itself in case a write was cut short
+        const { size } = await stat(this.audioPath(key))
+        entries.push({ ...entry, size, key })
+      } catch {
+        await this.remove(key)
+      }
+    }
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+    entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+    for (const entry of entries) {
+      const isStale = entry.createdAt + TTS_CACHE_TTL_MS < now
+      if (!isStale && total <= TTS_CACHE_MAX_BYTES) continue
+
+      await this.remove(entry.key)
+      total -= entry.size
+      stats.evictions++
+    }
+  }
+}
@@ -0,0 +1,122 @@
+// Every speech setting in one place: which provider runs, the ElevenLabs
+// models and voice, and the languages we pass on as hints.
+
+export type SpeechProviderName = 'elevenlabs' | 'local'
+
+// 'local' synthesizes tones and labels recordings instead of transcribing
+// them, so nothing needs the network or an API key
+export const SPEECH_PROVIDER: SpeechProviderName =
+  process.env.SPEECH_PROVIDER === 'local' ? 'local' : 'elevenlabs'
+
+export interface SpeechModel {
+  id: string
+  // Whether the model takes an explicit language code
+  acceptsLanguage: boolean
+}
+
+export const ELEVENLABS_MODELS: Record<
+  'synthesis' | 'streaming' | 'recognition',
+  SpeechModel
+> = {
+  // Best quality; used for the pre-recorded emergency message
+  synthesis: { id: 'eleven_multilingual_v2', acceptsLanguage: false },
+  // Lower quality but much faster to first byte; used for streamed messages
+  streaming: { id: 'eleven_turbo_v2_5', acceptsLanguage: true },
+  recognition: { id: 'scribe_v1', acceptsLanguage: true },
+}
+
+export const DEFAULT_VOICE_ID =
+  process.env.ELEVEN_VOICE_ID || '21m00Tcm4TlvDq8ikWAM'
+
+export interface VoiceSettings {
+  stability: number
+  similarity_boost: number
+  // 1 is normal; ElevenLabs accepts 0.7 to 1.2
+  speed?: number
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  stability: 0.5,
+  similarity_boost: 0.5,
+}
+
+// Voice and model ids go into the ElevenLabs URL and request body, so
+// anything from a client is checked against these first
+const VOICE_ID = /^[A-Za-z0-9]{1,64}$/
+const MODEL_ID = /^[A-Za-z0-9_]{1,64}$/
+
+export function isValidVoiceId(value: unknown): value is string {
+  return typeof value === 'string' && VOICE_ID.test(value)
+}
+
+export function isValidModelId(value: unknown): value is string {
+  return typeof value === 'string' && MODEL_ID.test(value)
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && value >= min && value <= max
+}
+
+// Exactly the fields of VoiceSettings, each within what ElevenLabs accepts
+export function isValidVoiceSettings(value: unknown): value is VoiceSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false
+  }
+  const settings = value as Record<string, unknown>
+  return (
+    Object.keys(settings).every((key) =>
+      ['stability', 'similarity_boost', 'speed'].includes(key)
+    ) &&
+    isInRange(settings.stability, 0, 1) &&
+    isInRange(settings.similarity_boost, 0, 1) &&
+    (settings.speed === undefined || isInRange(settings.speed, 0.7, 1.2))
+  )
+}
+
+// For operators who ask for slower speech from the call menu
+export const SLOW_VOICE_SETTINGS: VoiceSettings = {
+  ...DEFAULT_VOICE_SETTINGS,
+  speed: 0.75,
+}
+
+// ElevenLabs rejects longer requests (see RATE_LIMITING.md)
+export const MAX_TTS_CHARACTERS = 5000
+
+// Synthesized phrases kept for reuse (see lib/speech/cache.ts)
+export const TTS_CACHE_MAX_BYTES = 50 * 1024 * 1024
+export const TTS_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// ISO 639-1 codes the models handle well. Anything else is left to the
+// model's own language detection.
+const HINTED_LANGUAGES = [
+  'en',
+  'es',
+  'fr',
+  'de',
+  'it',
+  'pt',
+  'nl',
+  'pl',
+  'sv',
+  'da',
+  'fi',
+  'no',
+  'el',
+  'cs',
+  'ro',
+  'hu',
+  'ja',
+  'ko',
+  'zh',
+  'hi',
+  'ar',
+  'tr',
+]
+
+// 'pt-BR' -> 'pt'; undefined when the language is not one we hint
+export function toLanguageHint(
+  locale: string | null | undefined
+): string | undefined {
+  const language = locale?.split(/[-_]/)[0].toLowerCase()
+  return language && HINTED_LANGUAGES.includes(language) ? language : undefined
+}
@@ -0,0 +1,184 @@
+import {
+  DEFAULT_VOICE_ID,
+  DEFAULT_VOICE_SETTINGS,
+  ELEVENLABS_MODELS,
+  isValidVoiceId,
+  SpeechModel,
+} from '@/lib/speech/config'
+import {
+  AudioFormat,
+  RecognitionOptions,
+  SpeechRecognizer,
+  SpeechStream,
+  SpeechSynthesizer,
+  SynthesisOptions,
+  SynthesizedAudio,
+} from '@/lib/speech/types'
+
+// Server-side ElevenLabs speech. Never import this from client code: it
+// reads the ElevenLabs API key from the server environment.
+
+const ELEVEN_API_KEY = process.env.ELEVEN_API_KEY
+const ELEVEN_API_URL = 'https://api.elevenlabs.io/v1'
+
+const CONTENT_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  ulaw_8000: 'audio/basic',
+}
+
+function requireApiKey(): string {
+  if (!ELEVEN_API_KEY) {
+    throw new Error('Missing ElevenLabs API key')
+  }
+  return ELEVEN_API_KEY
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}))
+  return errorData.message || errorData.detail || response.statusText
+}
+
+export class ElevenLabsSynthesizer implements SpeechSynthesizer {
+  name = 'elevenlabs'
+
+  private request(
+    text: string,
+    options: SynthesisOptions,
+    model: SpeechModel,
+    path: string,
+    query: URLSearchParams
+  ): Promise<Response> {
+    const apiKey = requireApiKey()
+    const format = options.format || 'mp3'
+    // MP3 is the API's default output
+    if (format !== 'mp3') {
+      query.set('output_format', format)
+    }
+
+    const voiceId = options.voiceId || DEFAULT_VOICE_ID
+    if (!isValidVoiceId(voiceId)) {
+      throw new Error(`Invalid ElevenLabs voice id: ${voiceId}`)
+    }
+
+    const modelId = options.modelId || model.id
+    const language =
+      !options.modelId && model.acceptsLanguage ? options.language : undefined
+
+    return fetch(
+      `${ELEVEN_API_URL}/text-to-speech/${encodeURIComponent(
+        voiceId
+      )}${path}?${query}`,
+      {
+        method: 'POST',
+        headers: {
+          'xi-api-key': apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: text,
+          model_id: modelId,
+          voice_settings: options.voiceSettings || DEFAULT_VOICE_SETTINGS,
+          ...(language && { language_code: language }),
+        }),
+      }
+    )
+  }
+
+  async synthesize(
+    text: string,
+    options: SynthesisOptions = {}
+  ): Promise<SynthesizedAudio> {
+    console.log('[ElevenLabs TTS] Converting text to speech:', text)
+
+    const response = await this.request(
+      text,
+      options,
+      ELEVENLABS_MODELS.synthesis,
+      '',
+      new URLSearchParams()
+    )
+    if (!response.ok) {
+      throw new Error(
+        `ElevenLabs TTS API error: ${await errorMessage(response)}`
+      )
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer())
+    console.log('[ElevenLabs TTS] Audio generated successfully')
+    return { audio, contentType: CONTENT_TYPES[options.format || 'mp3'] }
+  }
+
+  stream(text: string, options: SynthesisOptions = {}): SpeechStream {
+    return {
+      contentType: CONTENT_TYPES[options.format || 'mp3'],
+      chunks: this.streamChunks(text, options),
+    }
+  }
+
+  private async *streamChunks(
+    text: string,
+    options: SynthesisOptions
+  ): AsyncGenerator<Buffer> {
+    console.log('[ElevenLabs TTS] Streaming text to speech:', text)
+
+    const response = await this.request(
+      text,
+      options,
+      ELEVENLABS_MODELS.streaming,
+      '/stream',
+      new URLSearchParams({ optimize_streaming_latency: '3' })
+    )
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `ElevenLabs TTS API error: ${await errorMessage(response)}`
+      )
+    }
+
+    const reader = response.body.getReader()
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        yield Buffer.from(value)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+}
+
+export class ElevenLabsRecognizer implements SpeechRecognizer {
+  name = 'elevenlabs'
+
+  async transcribe(
+    audio: Blob,
+    filename: string,
+    options: RecognitionOptions = {}
+  ): Promise<string> {
+    const apiKey = requireApiKey()
+
+    const formData = new FormData()
+    formData.append('file', audio, filename)
+    formData.append('model_id', ELEVENLABS_MODELS.recognition.id)
+    if (options.language && ELEVENLABS_MODELS.recognition.acceptsLanguage) {
+      formData.append('language_code', options.language)
+    }
+
+    const response = await fetch(`${ELEVEN_API_URL}/speech-to-text`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': apiKey,
+      },
+      body: formData,
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `ElevenLabs transcription error: ${await errorMessage(response)}`
+      )
+    }
+
+    const data = await response.json()
+    return data.text || ''
+  }
+}
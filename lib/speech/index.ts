@@ -0,0 +1,49 @@
+import { join } from 'path'
+import { DATA_DIR } from '@/lib/storage'
+import { SPEECH_PROVIDER } from '@/lib/speech/config'
+import { CachedSynthesizer } from '@/lib/speech/cache'
+import {
+  ElevenLabsRecognizer,
+  ElevenLabsSynthesizer,
+} from '@/lib/speech/elevenlabs'
+import { LocalRecognizer, LocalSynthesizer } from '@/lib/speech/local'
+import { SpeechRecognizer, SpeechSynthesizer } from '@/lib/speech/types'
+
+export {
+  isValidModelId,
+  isValidVoiceId,
+  isValidVoiceSettings,
+  MAX_TTS_CHARACTERS,
+  SLOW_VOICE_SETTINGS,
+  SPEECH_PROVIDER,
+  toLanguageHint,
+} from '@/lib/speech/config'
+export type { VoiceSettings } from '@/lib/speech/config'
+export { getSpeechCacheStats } from '@/lib/speech/cache'
+export type { SpeechCacheStats } from '@/lib/speech/cache'
+export type {
+  AudioFormat,
+  RecognitionOptions,
+  SpeechRecognizer,
+  SpeechStream,
+  SpeechSynthesizer,
+  SynthesisOptions,
+  SynthesizedAudio,
+} from '@/lib/speech/types'
+
+const TTS_CACHE_DIR = join(DATA_DIR, 'tts-cache')
+
+export function getSpeechSynthesizer(): SpeechSynthesizer {
+  return new CachedSynthesizer(
+    SPEECH_PROVIDER === 'local'
+      ? new LocalSynthesizer()
+      : new ElevenLabsSynthesizer(),
+    TTS_CACHE_DIR
+  )
+}
+
+export function getSpeechRecognizer(): SpeechRecognizer {
+  return SPEECH_PROVIDER === 'local'
+    ? new LocalRecognizer()
+    : new ElevenLabsRecognizer()
+}
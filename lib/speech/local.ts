@@ -0,0 +1,106 @@
+import {
+  buildMulawWav,
+  buildMulawWavHeader,
+  linearToMulaw,
+  SAMPLE_RATE,
+} from '@/lib/media-stream/audio'
+import {
+  RecognitionOptions,
+  SpeechRecognizer,
+  SpeechStream,
+  SpeechSynthesizer,
+  SynthesisOptions,
+  SynthesizedAudio,
+} from '@/lib/speech/types'
+
+// Offline stand-ins for ElevenLabs (SPEECH_PROVIDER=local). Synthesis turns
+// each word into a short tone whose pitch depends on the word; recognition
+// describes the audio instead of transcribing it. Both are deterministic, so
+// the same input always gives the same output.
+
+const WORD_MS = 250
+const GAP_MS = 50
+const CHUNK_DELAY_MS = 40
+
+function wordFrequency(word: string): number {
+  let hash = 0
+  for (let i = 0; i < word.length; i++) {
+    hash = (hash * 31 + word.charCodeAt(i)) % 400
+  }
+  return 300 + hash
+}
+
+// Slower speech stretches each word and the gap after it
+function renderWord(word: string, speed = 1): Buffer {
+  const toneSamples = Math.round((SAMPLE_RATE * WORD_MS) / 1000 / speed)
+  const gapSamples = Math.round((SAMPLE_RATE * GAP_MS) / 1000 / speed)
+  const audio = Buffer.alloc(toneSamples + gapSamples, linearToMulaw(0))
+  const frequency = wordFrequency(word)
+
+  for (let i = 0; i < toneSamples; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+    audio[i] = linearToMulaw(Math.round(sample * 8000))
+  }
+  return audio
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean)
+}
+
+export class LocalSynthesizer implements SpeechSynthesizer {
+  name = 'local'
+
+  // Raw mu-law for media streams, a mu-law WAV for everything else
+  async synthesize(
+    text: string,
+    options: SynthesisOptions = {}
+  ): Promise<SynthesizedAudio> {
+    const speed = options.voiceSettings?.speed
+    const audio = Buffer.concat(
+      splitWords(text).map((word) => renderWord(word, speed))
+    )
+    return options.format === 'ulaw_8000'
+      ? { audio, contentType: 'audio/basic' }
+      : { audio: buildMulawWav(audio), contentType: 'audio/wav' }
+  }
+
+  // One chunk per word, spaced out like a network stream
+  stream(text: string, options: SynthesisOptions = {}): SpeechStream {
+    const isRaw = options.format === 'ulaw_8000'
+    const speed = options.voiceSettings?.speed
+
+    async function* chunks(): AsyncGenerator<Buffer> {
+      // Length unknown up front, so claim the maximum
+      if (!isRaw) yield buildMulawWavHeader(0xffffffff - 36)
+
+      for (const word of splitWords(text)) {
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS))
+        yield renderWord(word, speed)
+      }
+    }
+
+    return {
+      contentType: isRaw ? 'audio/basic' : 'audio/wav',
+      chunks: chunks(),
+    }
+  }
+}
+
+export class LocalRecognizer implements SpeechRecognizer {
+  name = 'local'
+
+  async transcribe(
+    audio: Blob,
+    filename: string,
+    options: RecognitionOptions = {}
+  ): Promise<string> {
+    if (audio.size === 0) return ''
+
+    // Close enough for 8 kHz mu-law, which is what calls send
+    const seconds = (audio.size / SAMPLE_RATE).toFixed(1)
+    return `[local transcript: ${seconds}s of audio${
+      options.language ? `, ${options.language}` : ''
+    }]`
+  }
+}
@@ -0,0 +1,53 @@
+import { VoiceSettings } from '@/lib/speech/config'
+
+// 'mp3' for hosted files and <Play>; 'ulaw_8000' is raw 8 kHz mu-law for
+// Twilio media streams
+export type AudioFormat = 'mp3' | 'ulaw_8000'
+
+export interface SynthesisOptions {
+  voiceId?: string
+  modelId?: string
+  voiceSettings?: VoiceSettings
+  format?: AudioFormat
+  // ISO 639-1 code, see toLanguageHint
+  language?: string
+  // Reuse and keep the audio in the TTS cache. Only for text that repeats
+  // across sessions and holds nothing about the person.
+  cache?: boolean
+}
+
+export interface SynthesizedAudio {
+  audio: Buffer
+  contentType: string
+  // Set for audio that went through the TTS cache; the same key always
+  // means the same audio
+  cacheKey?: string
+}
+
+export interface SpeechStream {
+  contentType: string
+  chunks: AsyncGenerator<Buffer>
+}
+
+export interface SpeechSynthesizer {
+  name: string
+  synthesize(
+    text: string,
+    options?: SynthesisOptions
+  ): Promise<SynthesizedAudio>
+  // Audio as it is produced, so playback can start after the first chunk
+  stream(text: string, options?: SynthesisOptions): SpeechStream
+}
+
+export interface RecognitionOptions {
+  language?: string
+}
+
+export interface SpeechRecognizer {
+  name: string
+  transcribe(
+    audio: Blob,
+    filename: string,
+    options?: RecognitionOptions
+  ): Promise<string>
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto'
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  writeFile,
+} from 'fs/promises'
+import { join } from 'path'
+import {
+  CallEvent,
+  Session,
+  SessionMessage,
+  SessionStorage,
+} from '@/lib/storage/types'
+
+// File-backed storage that survives restarts and is shared by every process
+// on the host (Next and the media stream server). Layout under the data dir:
+//
+//   sessions/<id>/session.json    session and call metadata, replaced atomically
+//   sessions/<id>/messages.jsonl  append-only; a repeated id replaces the
+//                                 earlier line when read
+//   calls/<callSid>               id of the session that owns the call
+//   call-events/<callSid>.jsonl   append-only Twilio status callbacks
+//
+// Appends keep concurrent writers from clobbering each other's messages.
+
+// Ids become path segments; anything else could escape the data dir
+const SAFE_ID = /^[A-Za-z0-9-]+$/
+
+export class FileSessionStorage implements SessionStorage {
+  constructor(private dataDir: string) {}
+
+  private sessionDir(id: string): string {
+    if (!SAFE_ID.test(id)) {
+      throw new Error(`Invalid session id: ${id}`)
+    }
+    return join(this.dataDir, 'sessions', id)
+  }
+
+  private callIndexPath(callSid: string): string {
+    if (!SAFE_ID.test(callSid)) {
+      throw new Error(`Invalid call SID: ${callSid}`)
+    }
+    return join(this.dataDir, 'calls', callSid)
+  }
+
+  private async writeAtomic(path: string, contents: string): Promise<void> {
+    // Unique per write, so concurrent writes never rename each other's file
+    const tmpPath = `${path}.${randomUUID()}.tmp`
+    await writeFile(tmpPath, contents)
+    await rename(tmpPath, path)
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    const dir = this.sessionDir(session.id)
+    await mkdir(dir, { recursive: true })
+    await this.writeAtomic(
+      join(dir, 'session.json'),
+      JSON.stringify(session, null, 2)
+    )
+
+    if (session.callSid) {
+      await mkdir(join(this.dataDir, 'calls'), { recursive: true })
+      await writeFile(this.callIndexPath(session.callSid), session.id)
+    }
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    if (!SAFE_ID.test(id)) return null
+    try {
+      const contents = await readFile(
+        join(this.sessionDir(id), 'session.json'),
+        'utf8'
+      )
+      return JSON.parse(contents)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async findSessionByCallSid(callSid: string): Promise<Session | null> {
+    if (!SAFE_ID.test(callSid)) return null
+    try {
+      const sessionId = await readFile(this.callIndexPath(callSid), 'utf8')
+      return this.getSession(sessionId.trim())
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async listSessions(): Promise<Session[]> {
+    let ids: string[]
+    try {
+      ids = await readdir(join(this.dataDir, 'sessions'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const sessions = await Promise.all(ids.map((id) => this.getSession(id)))
+    return sessions.filter((session): session is Session => session !== null)
+  }
+
+  async addMessage(message: SessionMessage): Promise<void> {
+    const dir = this.sessionDir(message.sessionId)
+    await mkdir(dir, { recursive: true })
+    await appendFile(
+      join(dir, 'messages.jsonl'),
+      `${JSON.stringify(message)}\n`
+    )
+  }
+
+  async updateMessage(
+    sessionId: string,
+    messageId: string,
+    changes: Partial<Omit<SessionMessage, 'id' | 'sessionId'>>
+  ): Promise<SessionMessage | null> {
+    const messages = await this.listMessages(sessionId)
+    const existing = messages.find((message) => message.id === messageId)
+    if (!existing) return null
+
+    const updated = { ...existing, ...changes }
+    await this.addMessage(updated)
+    return updated
+  }
+
+  async listMessages(sessionId: string): Promise<SessionMessage[]> {
+    let contents: string
+    try {
+      contents = await readFile(
+        join(this.sessionDir(sessionId), 'messages.jsonl'),
+        'utf8'
+      )
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    // Fold repeated ids, keeping the first position and the last contents
+    const byId = new Map<string, SessionMessage>()
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const message: SessionMessage = JSON.parse(line)
+        byId.set(message.id, message)
+      } catch {
+        console.warn('[File Storage] Skipping corrupt message line')
+      }
+    }
+    return Array.from(byId.values())
+  }
+
+  async addCallEvent(event: CallEvent): Promise<void> {
+    if (!SAFE_ID.test(event.callSid)) {
+      throw new Error(`Invalid call SID: ${event.callSid}`)
+    }
+    const dir = join(this.dataDir, 'call-events')
+    await mkdir(dir, { recursive: true })
+    await appendFile(
+      join(dir, `${event.callSid}.jsonl`),
+      `${JSON.stringify(event)}\n`
+    )
+  }
+
+  async listCallEvents(callSid: string): Promise<CallEvent[]> {
+    if (!SAFE_ID.test(callSid)) return []
+
+    let contents: string
+    try {
+      contents = await readFile(
+        join(this.dataDir, 'call-events', `${callSid}.jsonl`),
+        'utf8'
+      )
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const events: CallEvent[] = []
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        events.push(JSON.parse(line))
+      } catch {
+        console.warn('[File Storage] Skipping corrupt call event line')
+      }
+    }
+    return events
+  }
+}
@@ -0,0 +1,34 @@
+import { join } from 'path'
+import { FileSessionStorage } from '@/lib/storage/file'
+import { MemorySessionStorage } from '@/lib/storage/memory'
+import { SessionStorage } from '@/lib/storage/types'
+
+export type {
+  CallEvent,
+  DeliveryStatus,
+  Session,
+  SessionMessage,
+  SessionStatus,
+  SessionStorage,
+} from '@/lib/storage/types'
+
+// 'file' (default) persists under DATA_DIR; 'memory' keeps everything in
+// this process only
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'file'
+export const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), '.data')
+
+// On globalThis so the memory driver is shared across route bundles
+const globalForStorage = globalThis as unknown as {
+  sessionStore?: SessionStorage
+}
+
+export function getStorage(): SessionStorage {
+  if (!globalForStorage.sessionStore) {
+    globalForStorage.sessionStore =
+      STORAGE_DRIVER === 'memory'
+        ? new MemorySessionStorage()
+        : new FileSessionStorage(DATA_DIR)
+    console.log('[Storage] Using storage driver:', STORAGE_DRIVER)
+  }
+  return globalForStorage.sessionStore
+}
@@ -0,0 +1,70 @@
+import {
+  CallEvent,
+  Session,
+  SessionMessage,
+  SessionStorage,
+} from '@/lib/storage/types'
+
+// Process-local storage. Lost on restart; useful for tests and throwaway runs.
+export class MemorySessionStorage implements SessionStorage {
+  private sessions = new Map<string, Session>()
+  private messages = new Map<string, SessionMessage[]>()
+  private callEvents = new Map<string, CallEvent[]>()
+
+  async saveSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, { ...session })
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    const session = this.sessions.get(id)
+    return session ? { ...session } : null
+  }
+
+  async findSessionByCallSid(callSid: string): Promise<Session | null> {
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.callSid === callSid) return { ...session }
+    }
+    return null
+  }
+
+  async listSessions(): Promise<Session[]> {
+    return Array.from(this.sessions.values()).map((session) => ({
+      ...session,
+    }))
+  }
+
+  async addMessage(message: SessionMessage): Promise<void> {
+    const messages = this.messages.get(message.sessionId) || []
+    messages.push({ ...message })
+    this.messages.set(message.sessionId, messages)
+  }
+
+  async updateMessage(
+    sessionId: string,
+    messageId: string,
+    changes: Partial<Omit<SessionMessage, 'id' | 'sessionId'>>
+  ): Promise<SessionMessage | null> {
+    const messages = this.messages.get(sessionId) || []
+    const index = messages.findIndex((message) => message.id === messageId)
+    if (index === -1) return null
+
+    messages[index] = { ...messages[index], ...changes }
+    return { ...messages[index] }
+  }
+
+  async listMessages(sessionId: string): Promise<SessionMessage[]> {
+    return (this.messages.get(sessionId) || []).map((message) => ({
+      ...message,
+    }))
+  }
+
+  async addCallEvent(event: CallEvent): Promise<void> {
+    const events = this.callEvents.get(event.callSid) || []
+    events.push({ ...event })
+    this.callEvents.set(event.callSid, events)
+  }
+
+  async listCallEvents(callSid: string): Promise<CallEvent[]> {
+    return (this.callEvents.get(callSid) || []).map((event) => ({ ...event }))
+  }
+}
@@ -0,0 +1,91 @@
+import { EmergencyData } from '@/lib/types'
+import { RoutingResult } from '@/lib/routing'
+import { CallEndReason } from '@/lib/twilio'
+import { Coordinates } from '@/lib/geo'
+
+export type SessionStatus =
+  | 'starting'
+  | 'synthesizing'
+  | 'dialing'
+  | 'ringing'
+  | 'active'
+  | 'ended'
+  | 'failed'
+
+export interface Session {
+  id: string
+  status: SessionStatus
+  emergencyData: EmergencyData
+  emergencyMessage: string
+  audioUrl: string | null
+  // The opening sentence, played before audioUrl from shared cached audio
+  introAudioUrl?: string
+  routing: RoutingResult | null
+  callSid: string | null
+  // Why the call ended, straight from Twilio (busy, no-answer, ...)
+  endReason: CallEndReason | null
+  // Set once the operator asks for slower speech from the call menu
+  slowSpeech?: boolean
+  // The latest position, once the person has moved away from where they
+  // were when they asked for help
+  movedTo?: Coordinates & { timestamp: number }
+  error: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+export type DeliveryStatus = 'sending' | 'delivered' | 'failed'
+
+// A message in either direction: 'outbound' is spoken to the operator on the
+// person's behalf, 'inbound' is a transcript of what the operator said or a
+// key they pressed in the call menu
+export interface SessionMessage {
+  id: string
+  sessionId: string
+  direction: 'outbound' | 'inbound'
+  text: string
+  // ISO 639-1 language of `text`, when known
+  language?: string
+  // The version the other side got: what the operator heard, or the
+  // operator's words in the person's language
+  translation?: { text: string; language: string }
+  // Exactly what the operator heard, when that isn't `text`
+  spokenText?: string
+  // The call menu key, for an operator key press
+  menuKey?: string
+  // Outbound messages are spoken into the call unless sent as a text
+  channel?: 'call' | 'sms'
+  timestamp: number
+  deliveryStatus?: DeliveryStatus
+}
+
+// One StatusCallback from Twilio: a step in a call's lifecycle
+export interface CallEvent {
+  callSid: string
+  twilioStatus: string
+  sequenceNumber: number
+  // When Twilio says it happened, and when we heard about it
+  timestamp: number
+  receivedAt: number
+  duration: number | null
+  answeredBy: string | null
+}
+
+export interface SessionStorage {
+  saveSession(session: Session): Promise<void>
+  getSession(id: string): Promise<Session | null>
+  findSessionByCallSid(callSid: string): Promise<Session | null>
+  listSessions(): Promise<Session[]>
+
+  addMessage(message: SessionMessage): Promise<void>
+  // Later writes with the same id replace earlier ones
+  updateMessage(
+    sessionId: string,
+    messageId: string,
+    changes: Partial<Omit<SessionMessage, 'id' | 'sessionId'>>
+  ): Promise<SessionMessage | null>
+  listMessages(sessionId: string): Promise<SessionMessage[]>
+
+  addCallEvent(event: CallEvent): Promise<void>
+  listCallEvents(callSid: string): Promise<CallEvent[]>
+}
@@ -0,0 +1,32 @@
+import { MockTelephonyProvider } from '@/lib/telephony/mock'
+import { TwilioTelephonyProvider } from '@/lib/telephony/twilio'
+import { TelephonyProvider } from '@/lib/telephony/types'
+
+export { TelephonyError } from '@/lib/telephony/types'
+export type {
+  CallInfo,
+  CallStatus,
+  PlaceCallParams,
+  SendSmsParams,
+  SmsInfo,
+  TelephonyProvider,
+} from '@/lib/telephony/types'
+
+// 'twilio' (default) places real calls; 'mock' simulates them locally
+const TELEPHONY_PROVIDER = process.env.TELEPHONY_PROVIDER || 'twilio'
+
+// On globalThis so the mock's timers and calls are shared across bundles
+const globalForTelephony = globalThis as unknown as {
+  telephonyProvider?: TelephonyProvider
+}
+
+export function getTelephonyProvider(): TelephonyProvider {
+  if (!globalForTelephony.telephonyProvider) {
+    globalForTelephony.telephonyProvider =
+      TELEPHONY_PROVIDER === 'mock'
+        ? new MockTelephonyProvider()
+        : new TwilioTelephonyProvider()
+    console.log('[Telephony] Using telephony provider:', TELEPHONY_PROVIDER)
+  }
+  return globalForTelephony.telephonyProvider
+}
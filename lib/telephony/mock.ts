@@ -0,0 +1,371 @@
+import { randomBytes } from 'crypto'
+import { CallEvent, recordCallEvent } from '@/lib/call-events'
+import { addTranscription } from '@/lib/transcripts'
+import { buildMulawWav, SAMPLE_RATE } from '@/lib/media-stream/audio'
+import { isCallEndReason, toAppCallStatus } from '@/lib/twilio'
+import {
+  canSignTwilioRequests,
+  signTwilioRequest,
+} from '@/lib/twilio-signature'
+import {
+  CallInfo,
+  CallStatus,
+  PlaceCallParams,
+  SendSmsParams,
+  SmsInfo,
+  TelephonyError,
+  TelephonyProvider,
+} from '@/lib/telephony/types'
+
+// Offline stand-in for a carrier. Calls go through the same lifecycle Twilio
+// reports (initiated, ringing, in-progress, a terminal status) on timers, and
+// an imaginary operator answers every message with a scripted reply. Nothing
+// leaves the machine and no credentials are needed.
+//
+// With MOCK_CALL_OUTCOME=manual calls ring until someone acts on them from
+// the operator console (/dev/operator), and only the console sends replies.
+//
+// With TWILIO_SIGNATURE_MODE=test, status changes are POSTed to the call's
+// status callback with a signature, as Twilio sends them, so the webhook and
+// its signature check run too. Otherwise they are recorded directly.
+
+export type MockCallOutcome =
+  | 'answer'
+  | 'busy'
+  | 'no-answer'
+  | 'failed'
+  | 'manual'
+
+const MOCK_CALL_OUTCOMES: MockCallOutcome[] = [
+  'answer',
+  'busy',
+  'no-answer',
+  'failed',
+  'manual',
+]
+const MOCK_CALL_OUTCOME: MockCallOutcome =
+  MOCK_CALL_OUTCOMES.find(
+    (outcome) => outcome === process.env.MOCK_CALL_OUTCOME
+  ) || 'answer'
+
+const MOCK_CALLER_ID = '+15005550006'
+const RING_AFTER_MS = 1000
+const ANSWER_AFTER_MS = 4000
+const NO_ANSWER_AFTER_MS = 15000
+// How long the operator "listens" before replying to a message
+const REPLY_AFTER_MS = 5000
+
+const OPERATOR_REPLIES = [
+  'Emergency services. I have received your message. Can you confirm the address?',
+  'Help is on the way. Is anyone injured?',
+  'Understood. Stay where you are if it is safe and keep this line open.',
+  'Units are a few minutes away. Tell me if anything changes.',
+]
+
+// What the operator console can do to a call
+export type MockOperatorAction = 'answer' | 'no-answer' | 'busy' | 'hangup'
+
+// Audio the call was told to <Play>, in order
+export interface MockPlay {
+  url: string
+  at: number
+}
+
+export interface MockCallSnapshot {
+  sid: string
+  to: string
+  twilioStatus: string
+  createdAt: number
+  startedAt: number | null
+  endedAt: number | null
+  plays: MockPlay[]
+}
+
+interface MockCall extends MockCallSnapshot {
+  statusCallback: string | null
+  sequenceNumber: number
+  replies: number
+  timers: Set<ReturnType<typeof setTimeout>>
+}
+
+// On globalThis so every route bundle sees the same calls
+const globalForMock = globalThis as unknown as {
+  mockCalls?: Map<string, MockCall>
+}
+const mockCalls =
+  globalForMock.mockCalls ??
+  (globalForMock.mockCalls = new Map<string, MockCall>())
+
+function isEnded(call: MockCall): boolean {
+  return isCallEndReason(call.twilioStatus)
+}
+
+function clearTimers(call: MockCall) {
+  call.timers.forEach((timer) => clearTimeout(timer))
+  call.timers.clear()
+}
+
+function recordPlays(call: MockCall, twiml: string) {
+  const now = Date.now()
+  for (const match of Array.from(twiml.matchAll(/<Play>([^<]+)<\/Play>/g))) {
+    // Hosted audio URLs carry a signature, so their & arrives escaped
+    call.plays.push({ url: match[1].trim().replace(/&amp;/g, '&'), at: now })
+  }
+}
+
+function getCall(callSid: string): MockCall {
+  const call = mockCalls.get(callSid)
+  if (!call) {
+    throw new TelephonyError('Call not found', 404)
+  }
+  return call
+}
+
+function schedule(call: MockCall, delayMs: number, action: () => void) {
+  const timer = setTimeout(() => {
+    call.timers.delete(timer)
+    action()
+  }, delayMs)
+  call.timers.add(timer)
+}
+
+async function reportStatus(call: MockCall, event: CallEvent) {
+  if (!call.statusCallback || !canSignTwilioRequests()) {
+    await recordCallEvent(event)
+    return
+  }
+
+  const params: Record<string, string> = {
+    CallSid: event.callSid,
+    CallStatus: event.twilioStatus,
+    SequenceNumber: String(event.sequenceNumber),
+    Timestamp: new Date(event.timestamp).toUTCString(),
+  }
+  if (event.duration !== null) params.CallDuration = String(event.duration)
+  if (event.answeredBy) params.AnsweredBy = event.answeredBy
+
+  const response = await fetch(call.statusCallback, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': signTwilioRequest(call.statusCallback, params),
+    },
+    body: new URLSearchParams(params),
+  })
+  if (!response.ok) {
+    throw new Error(`Status callback returned ${response.status}`)
+  }
+}
+
+async function transition(call: MockCall, twilioStatus: string) {
+  if (isEnded(call) || call.twilioStatus === twilioStatus) return
+
+  const now = Date.now()
+  call.twilioStatus = twilioStatus
+  if (twilioStatus === 'in-progress') call.startedAt = now
+  if (isEnded(call)) {
+    call.endedAt = now
+    clearTimers(call)
+  }
+
+  try {
+    await reportStatus(call, {
+      callSid: call.sid,
+      twilioStatus,
+      sequenceNumber: call.sequenceNumber++,
+      timestamp: now,
+      receivedAt: now,
+      duration:
+        call.endedAt && call.startedAt
+          ? Math.round((call.endedAt - call.startedAt) / 1000)
+          : null,
+      answeredBy: twilioStatus === 'in-progress' ? 'human' : null,
+    })
+  } catch (error) {
+    console.error('[Mock Telephony] Failed to record call event:', error)
+  }
+}
+
+// A <Record> in the TwiML means the operator is expected to answer
+function expectReply(call: MockCall, twiml: string) {
+  if (MOCK_CALL_OUTCOME === 'manual' || !twiml.includes('<Record')) return
+
+  schedule(call, REPLY_AFTER_MS, async () => {
+    if (call.twilioStatus !== 'in-progress') return
+
+    const reply = OPERATOR_REPLIES[call.replies++ % OPERATOR_REPLIES.length]
+    try {
+      await addTranscription(call.sid, reply)
+    } catch (error) {
+      console.error('[Mock Telephony] Failed to add operator reply:', error)
+    }
+  })
+}
+
+export class MockTelephonyProvider implements TelephonyProvider {
+  name = 'mock'
+  callerId = process.env.TWILIO_PHONE_NUMBER || MOCK_CALLER_ID
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async placeCall(params: PlaceCallParams): Promise<CallInfo> {
+    const call: MockCall = {
+      sid: `CA${randomBytes(16).toString('hex')}`,
+      to: params.to,
+      twilioStatus: 'queued',
+      createdAt: Date.now(),
+      startedAt: null,
+      endedAt: null,
+      plays: [],
+      statusCallback: params.statusCallback || null,
+      sequenceNumber: 0,
+      replies: 0,
+      timers: new Set(),
+    }
+    mockCalls.set(call.sid, call)
+    recordPlays(call, params.twiml)
+    console.log('[Mock Telephony] Placing call:', {
+      callSid: call.sid,
+      to: params.to,
+      outcome: MOCK_CALL_OUTCOME,
+    })
+
+    schedule(call, 0, () => transition(call, 'initiated'))
+
+    if (MOCK_CALL_OUTCOME === 'failed') {
+      schedule(call, RING_AFTER_MS, () => transition(call, 'failed'))
+    } else if (MOCK_CALL_OUTCOME === 'busy') {
+      schedule(call, RING_AFTER_MS, () => transition(call, 'busy'))
+    } else {
+      schedule(call, RING_AFTER_MS, () => transition(call, 'ringing'))
+
+      if (MOCK_CALL_OUTCOME === 'manual') {
+        // Rings until the operator console acts on it
+      } else if (MOCK_CALL_OUTCOME === 'no-answer') {
+        schedule(call, NO_ANSWER_AFTER_MS, () => transition(call, 'no-answer'))
+      } else {
+        schedule(call, ANSWER_AFTER_MS, async () => {
+          await transition(call, 'in-progress')
+          expectReply(call, params.twiml)
+        })
+      }
+    }
+
+    return { sid: call.sid, status: call.twilioStatus }
+  }
+
+  async updateCall(callSid: string, twiml: string): Promise<CallInfo> {
+    const call = getCall(callSid)
+    if (call.twilioStatus !== 'in-progress') {
+      throw new TelephonyError('Call is not in progress', 409)
+    }
+
+    console.log('[Mock Telephony] Call updated:', callSid)
+    recordPlays(call, twiml)
+    expectReply(call, twiml)
+    return { sid: call.sid, status: call.twilioStatus }
+  }
+
+  async hangup(callSid: string): Promise<CallInfo> {
+    const call = getCall(callSid)
+    await transition(
+      call,
+      call.twilioStatus === 'in-progress' ? 'completed' : 'canceled'
+    )
+    return { sid: call.sid, status: call.twilioStatus }
+  }
+
+  async getStatus(callSid: string): Promise<CallStatus> {
+    const call = getCall(callSid)
+    return {
+      status: toAppCallStatus(call.twilioStatus),
+      twilioStatus: call.twilioStatus,
+      answeredBy: call.startedAt ? 'human' : null,
+      duration:
+        call.endedAt && call.startedAt
+          ? String(Math.round((call.endedAt - call.startedAt) / 1000))
+          : null,
+      startTime: call.startedAt ? new Date(call.startedAt).toUTCString() : null,
+      endTime: call.endedAt ? new Date(call.endedAt).toUTCString() : null,
+    }
+  }
+
+  // One second of silence; replies arrive as transcripts, not recordings
+  async downloadRecording(): Promise<Blob> {
+    const silence = Buffer.alloc(SAMPLE_RATE, 0xff)
+    return new Blob([buildMulawWav(silence)], { type: 'audio/wav' })
+  }
+
+  // Texts are only logged; the session's message log shows what was sent
+  async sendSms(params: SendSmsParams): Promise<SmsInfo> {
+    const sid = `SM${randomBytes(16).toString('hex')}`
+    console.log('[Mock Telephony] SMS sent:', {
+      sid,
+      to: params.to,
+      body: params.body,
+    })
+    return { sid, status: 'delivered' }
+  }
+}
+
+// The operator console's controls. Module functions rather than provider
+// methods: Next bundles each route separately, so the console route cannot
+// rely on sharing the provider's class, only the calls on globalThis.
+
+export function listMockCalls(): MockCallSnapshot[] {
+  return Array.from(mockCalls.values())
+    .map((call) => ({
+      sid: call.sid,
+      to: call.to,
+      twilioStatus: call.twilioStatus,
+      createdAt: call.createdAt,
+      startedAt: call.startedAt,
+      endedAt: call.endedAt,
+      plays: [...call.plays],
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Operator-side events, driven by the console
+export async function simulateOperatorAction(
+  callSid: string,
+  action: MockOperatorAction
+): Promise<void> {
+  const call = getCall(callSid)
+  if (isEnded(call)) {
+    throw new TelephonyError('Call has already ended', 409)
+  }
+
+  const isAnswered = call.twilioStatus === 'in-progress'
+  if (action === 'hangup' ? !isAnswered : isAnswered) {
+    throw new TelephonyError(
+      action === 'hangup'
+        ? 'Call has not been answered'
+        : 'Call has already been answered',
+      409
+    )
+  }
+
+  // The console overrides whatever the timers had planned
+  clearTimers(call)
+  console.log('[Mock Telephony] Operator action:', { callSid, action })
+
+  if (action === 'answer') {
+    await transition(call, 'in-progress')
+  } else {
+    await transition(call, action === 'hangup' ? 'completed' : action)
+  }
+}
+
+export async function sendOperatorReply(
+  callSid: string,
+  text: string
+): Promise<void> {
+  const call = getCall(callSid)
+  if (call.twilioStatus !== 'in-progress') {
+    throw new TelephonyError('Call is not in progress', 409)
+  }
+  await addTranscription(call.sid, text)
+}
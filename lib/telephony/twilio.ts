@@ -0,0 +1,202 @@
+import { toAppCallStatus } from '@/lib/twilio'
+import {
+  CallInfo,
+  CallStatus,
+  PlaceCallParams,
+  SendSmsParams,
+  SmsInfo,
+  TelephonyError,
+  TelephonyProvider,
+} from '@/lib/telephony/types'
+
+// Twilio REST API. Server-only: reads the auth token.
+
+const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN
+const TWILIO_PHONE_NUMBER = process.env.TWILIO_PHONE_NUMBER
+
+// Lifecycle events Twilio reports to a call's StatusCallback
+const STATUS_CALLBACK_EVENTS = ['initiated', 'ringing', 'answered', 'completed']
+
+const RECORDING_DOWNLOAD_ATTEMPTS = 3
+
+// The fields we use from Twilio's Call resource
+interface TwilioCallResource {
+  sid: string
+  status: string
+  answered_by: string | null
+  duration: string | null
+  start_time: string | null
+  end_time: string | null
+}
+
+// The fields we use from Twilio's Message resource
+interface TwilioMessageResource {
+  sid: string
+  status: string
+}
+
+export class TwilioTelephonyProvider implements TelephonyProvider {
+  name = 'twilio'
+  callerId = TWILIO_PHONE_NUMBER || null
+
+  isConfigured(): boolean {
+    return Boolean(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN)
+  }
+
+  private authorizationHeader(): string {
+    return `Basic ${Buffer.from(
+      `${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`
+    ).toString('base64')}`
+  }
+
+  private callUrl(callSid?: string): string {
+    const base = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls`
+    return callSid ? `${base}/${callSid}.json` : `${base}.json`
+  }
+
+  private messagesUrl(): string {
+    return `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`
+  }
+
+  private async request<T = TwilioCallResource>(
+    url: string,
+    body: URLSearchParams | null,
+    failureMessage: string
+  ): Promise<T> {
+    if (!this.isConfigured()) {
+      throw new TelephonyError('Missing Twilio credentials', 500)
+    }
+
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        Authorization: this.authorizationHeader(),
+        ...(body && { 'Content-Type': 'application/x-www-form-urlencoded' }),
+      },
+      body,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.text()
+      console.error(`[Twilio] ${failureMessage}:`, errorData)
+      throw new TelephonyError(failureMessage, response.status)
+    }
+
+    return response.json()
+  }
+
+  async placeCall(params: PlaceCallParams): Promise<CallInfo> {
+    const body = new URLSearchParams({
+      To: params.to,
+      From: params.from,
+      Twiml: params.twiml,
+    })
+    if (params.statusCallback) {
+      body.append('StatusCallback', params.statusCallback)
+      body.append('StatusCallbackMethod', 'POST')
+      for (const event of STATUS_CALLBACK_EVENTS) {
+        body.append('StatusCallbackEvent', event)
+      }
+    }
+
+    const data = await this.request(
+      this.callUrl(),
+      body,
+      'Failed to make Twilio call'
+    )
+    return { sid: data.sid, status: data.status }
+  }
+
+  async updateCall(callSid: string, twiml: string): Promise<CallInfo> {
+    const data = await this.request(
+      this.callUrl(callSid),
+      new URLSearchParams({ Twiml: twiml }),
+      'Failed to update Twilio call'
+    )
+    return { sid: data.sid, status: data.status }
+  }
+
+  async hangup(callSid: string): Promise<CallInfo> {
+    const data = await this.request(
+      this.callUrl(callSid),
+      new URLSearchParams({ Status: 'completed' }),
+      'Failed to end Twilio call'
+    )
+    return { sid: data.sid, status: data.status }
+  }
+
+  async getStatus(callSid: string): Promise<CallStatus> {
+    const callData = await this.request(
+      this.callUrl(callSid),
+      null,
+      'Failed to fetch call status'
+    )
+    return {
+      status: toAppCallStatus(callData.status),
+      twilioStatus: callData.status,
+      answeredBy: callData.answered_by,
+      duration: callData.duration,
+      startTime: callData.start_time,
+      endTime: callData.end_time,
+    }
+  }
+
+  async sendSms(params: SendSmsParams): Promise<SmsInfo> {
+    const data = await this.request<TwilioMessageResource>(
+      this.messagesUrl(),
+      new URLSearchParams({
+        To: params.to,
+        From: params.from,
+        Body: params.body,
+      }),
+      'Failed to send SMS'
+    )
+    return { sid: data.sid, status: data.status }
+  }
+
+  // Recordings can 404 for a moment after Twilio reports them, so retry
+  // with exponential backoff (2s, 4s)
+  async downloadRecording(recordingUrl: string): Promise<Blob> {
+    if (!this.isConfigured()) {
+      throw new TelephonyError('Missing Twilio credentials', 500)
+    }
+
+    for (let attempt = 1; attempt <= RECORDING_DOWNLOAD_ATTEMPTS; attempt++) {
+      try {
+        console.log(`[Twilio] Attempt ${attempt} to download recording...`)
+
+        const recordingResponse = await fetch(recordingUrl, {
+          headers: { Authorization: this.authorizationHeader() },
+        })
+
+        if (recordingResponse.ok) {
+          const audioBlob = await recordingResponse.blob()
+          console.log(
+            `[Twilio] Successfully downloaded recording on attempt ${attempt}, size:`,
+            audioBlob.size
+          )
+          return audioBlob
+        }
+
+        console.log(`[Twilio] Attempt ${attempt} failed:`, {
+          status: recordingResponse.status,
+          statusText: recordingResponse.statusText,
+        })
+      } catch (error) {
+        console.error(`[Twilio] Attempt ${attempt} error:`, error)
+      }
+
+      if (attempt < RECORDING_DOWNLOAD_ATTEMPTS) {
+        const waitTime = Math.pow(2, attempt) * 1000
+        console.log(`[Twilio] Waiting ${waitTime}ms before retry...`)
+        await new Promise((resolve) => setTimeout(resolve, waitTime))
+      }
+    }
+
+    throw new TelephonyError(
+      `Failed to download recording after ${RECORDING_DOWNLOAD_ATTEMPTS} attempts`,
+      502
+    )
+  }
+}
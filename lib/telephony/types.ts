@@ -0,0 +1,56 @@
+export class TelephonyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'TelephonyError'
+  }
+}
+
+export interface PlaceCallParams {
+  to: string
+  from: string
+  twiml: string
+  // Receives Twilio-style status callbacks for the call's lifecycle
+  statusCallback?: string
+}
+
+export interface SendSmsParams {
+  to: string
+  from: string
+  body: string
+}
+
+export interface SmsInfo {
+  sid: string
+  status: string
+}
+
+export interface CallInfo {
+  sid: string
+  status: string
+}
+
+export interface CallStatus {
+  status: 'ringing' | 'active' | 'ended' | string
+  twilioStatus: string
+  answeredBy: string | null
+  duration: string | null
+  startTime: string | null
+  endTime: string | null
+}
+
+// Everything the app needs from a phone carrier. Calls are described with
+// TwiML and statuses use Twilio's names, whichever provider is behind it.
+export interface TelephonyProvider {
+  name: string
+  // Number calls are placed from, if one is configured
+  callerId: string | null
+  isConfigured(): boolean
+
+  placeCall(params: PlaceCallParams): Promise<CallInfo>
+  // Replace the TwiML of a call that is in progress
+  updateCall(callSid: string, twiml: string): Promise<CallInfo>
+  hangup(callSid: string): Promise<CallInfo>
+  getStatus(callSid: string): Promise<CallStatus>
+  downloadRecording(recordingUrl: string): Promise<Blob>
+  sendSms(params: SendSmsParams): Promise<SmsInfo>
+}
@@ -0,0 +1,69 @@
+import {
+  addSessionMessage,
+  getSessionByCallSid,
+  listSessionMessages,
+  SessionMessage,
+} from '@/lib/sessions'
+import { publishSessionEvent } from '@/lib/session-events'
+import { languageOf, translateForDelivery } from '@/lib/translation'
+
+// Store what the operator said on a call and push it to the session's chat,
+// translated into the person's language when it differs from the dispatcher's
+export async function addTranscription(
+  callSid: string,
+  text: string
+): Promise<SessionMessage | null> {
+  const session = await getSessionByCallSid(callSid)
+  if (!session) {
+    console.warn('[Transcripts] No session for call, dropping transcript:', {
+      callSid,
+      text,
+    })
+    return null
+  }
+
+  const dispatchLanguage = session.routing?.language || null
+  const translation = await translateForDelivery(
+    text,
+    dispatchLanguage,
+    languageOf(session.emergencyData.browserLanguage)
+  )
+
+  const message = await addSessionMessage(session.id, {
+    direction: 'inbound',
+    text,
+    ...(dispatchLanguage && { language: dispatchLanguage }),
+    ...(translation && { translation }),
+  })
+
+  publishSessionEvent(session.id, {
+    type: 'transcript',
+    data: {
+      id: message.id,
+      text: translation ? translation.text : text,
+      originalText: translation ? text : null,
+      timestamp: message.timestamp,
+    },
+  })
+
+  console.log('[Transcripts] Added transcription:', {
+    callSid,
+    sessionId: session.id,
+    text,
+    timestamp: message.timestamp,
+  })
+  return message
+}
+
+export async function getTranscriptions(
+  callSid: string,
+  since = 0
+): Promise<SessionMessage[]> {
+  const session = await getSessionByCallSid(callSid)
+  if (!session) return []
+
+  const messages = await listSessionMessages(session.id)
+  return messages.filter(
+    (message) => message.direction === 'inbound' && message.timestamp > since
+  )
+}
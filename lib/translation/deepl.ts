@@ -0,0 +1,56 @@
+import { TranslationRequest, Translator } from '@/lib/translation/types'
+
+// Server-side DeepL translation. Free-tier keys end in ":fx" and use a
+// different host.
+
+const DEEPL_API_KEY = process.env.DEEPL_API_KEY
+
+// Where DeepL's codes differ from ISO 639-1
+const DEEPL_LANGUAGE_CODES: Record<string, string> = {
+  no: 'NB',
+}
+
+function toDeepLCode(language: string): string {
+  return DEEPL_LANGUAGE_CODES[language] || language.toUpperCase()
+}
+
+export class DeepLTranslator implements Translator {
+  name = 'deepl'
+
+  async translate({ text, from, to }: TranslationRequest): Promise<string> {
+    if (!DEEPL_API_KEY) {
+      throw new Error('Missing DeepL API key')
+    }
+
+    const host = DEEPL_API_KEY.endsWith(':fx')
+      ? 'https://api-free.deepl.com'
+      : 'https://api.deepl.com'
+
+    const body = new URLSearchParams({
+      text,
+      target_lang: toDeepLCode(to),
+    })
+    if (from) {
+      body.set('source_lang', toDeepLCode(from))
+    }
+
+    const response = await fetch(`${host}/v2/translate`, {
+      method: 'POST',
+      headers: {
+        Authorization: `DeepL-Auth-Key ${DEEPL_API_KEY}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(
+        `DeepL translation error: ${errorData.message || response.statusText}`
+      )
+    }
+
+    const data = await response.json()
+    return data.translations?.[0]?.text ?? text
+  }
+}
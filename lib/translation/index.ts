@@ -0,0 +1,54 @@
+import { DeepLTranslator } from '@/lib/translation/deepl'
+import { StubTranslator } from '@/lib/translation/stub'
+import { Translator } from '@/lib/translation/types'
+
+export type { TranslationRequest, Translator } from '@/lib/translation/types'
+
+// 'none' (default) passes text through untouched, 'deepl' uses the DeepL API
+// and 'stub' tags text offline
+const TRANSLATION_PROVIDER = process.env.TRANSLATION_PROVIDER || 'none'
+
+export function getTranslator(): Translator | null {
+  switch (TRANSLATION_PROVIDER) {
+    case 'deepl':
+      return new DeepLTranslator()
+    case 'stub':
+      return new StubTranslator()
+    default:
+      return null
+  }
+}
+
+// 'es-MX' -> 'es'
+export function languageOf(locale: string | null | undefined): string | null {
+  return locale?.split(/[-_]/)[0].toLowerCase() || null
+}
+
+export interface Translation {
+  text: string
+  language: string
+}
+
+// Translate text for the other side of the call. Returns null when no
+// translation is needed or possible; a failure is logged and the original
+// is used, since an untranslated message beats an undelivered one.
+export async function translateForDelivery(
+  text: string,
+  from: string | null,
+  to: string | null
+): Promise<Translation | null> {
+  const translator = getTranslator()
+  if (!translator || !to || from === to) return null
+
+  try {
+    const translated = await translator.translate({
+      text,
+      from: from || undefined,
+      to,
+    })
+    return { text: translated, language: to }
+  } catch (error) {
+    console.error('[Translation] Failed, using original text:', error)
+    return null
+  }
+}
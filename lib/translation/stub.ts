@@ -0,0 +1,12 @@
+import { TranslationRequest, Translator } from '@/lib/translation/types'
+
+// Offline stand-in (TRANSLATION_PROVIDER=stub). Does not translate; it tags
+// the text with the language pair so every translated hop is visible in the
+// chat and the operator console.
+export class StubTranslator implements Translator {
+  name = 'stub'
+
+  async translate({ text, from, to }: TranslationRequest): Promise<string> {
+    return `[${from || 'auto'}→${to}] ${text}`
+  }
+}
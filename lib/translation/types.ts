@@ -0,0 +1,11 @@
+export interface TranslationRequest {
+  text: string
+  // ISO 639-1 codes. Without `from` the provider detects the language.
+  from?: string
+  to: string
+}
+
+export interface Translator {
+  name: string
+  translate(request: TranslationRequest): Promise<string>
+}
@@ -0,0 +1,86 @@
+import config from '@/config/triage.json'
+import { getService } from '@/lib/services'
+
+// Triage questions for the emergency form, backed by config/triage.json.
+// Each question has tap answers, and each answer the English sentence the
+// operator hears plus a priority: 0 is the most urgent and is spoken first.
+// Which questions a service asks is set in config/services.json. Bump
+// "version" on edits.
+
+// Question id -> answer id
+export type TriageAnswers = Record<string, string>
+
+export interface TriageQuestion {
+  id: string
+  question: string
+  answers: { id: string; label: string }[]
+}
+
+interface TriageAnswer {
+  label: string
+  spoken: string
+  priority: number
+}
+
+const questions = config.questions as Record<
+  string,
+  { question: string; answers: Record<string, TriageAnswer> }
+>
+
+function askedBy(serviceNeeded: string): string[] {
+  return getService(serviceNeeded)?.triage || []
+}
+
+function findAnswer(questionId: string, answerId: string): TriageAnswer | null {
+  const question = Object.prototype.hasOwnProperty.call(questions, questionId)
+    ? questions[questionId]
+    : null
+  return question &&
+    Object.prototype.hasOwnProperty.call(question.answers, answerId)
+    ? question.answers[answerId]
+    : null
+}
+
+export function getTriageQuestions(serviceNeeded: string): TriageQuestion[] {
+  return askedBy(serviceNeeded)
+    .filter((id) => questions[id])
+    .map((id) => ({
+      id,
+      question: questions[id].question,
+      answers: Object.entries(questions[id].answers).map(
+        ([answerId, answer]) => ({ id: answerId, label: answer.label })
+      ),
+    }))
+}
+
+// Keep only answers to questions this service asks, with known answer ids.
+// Anything else in a request is dropped rather than rejected.
+export function sanitizeTriage(
+  serviceNeeded: string,
+  value: unknown
+): TriageAnswers | null {
+  if (!value || typeof value !== 'object') return null
+
+  const answers: TriageAnswers = {}
+  for (const questionId of askedBy(serviceNeeded)) {
+    const answerId = (value as Record<string, unknown>)[questionId]
+    if (typeof answerId === 'string' && findAnswer(questionId, answerId)) {
+      answers[questionId] = answerId
+    }
+  }
+  return Object.keys(answers).length > 0 ? answers : null
+}
+
+// The answers as sentences for the operator, most urgent first. Answers at
+// equal priority keep their order.
+export function buildTriageSentences(
+  triage: TriageAnswers | null | undefined
+): string[] {
+  if (!triage) return []
+
+  return Object.entries(triage)
+    .map(([questionId, answerId]) => findAnswer(questionId, answerId))
+    .filter((answer): answer is TriageAnswer => answer !== null)
+    .sort((a, b) => a.priority - b.priority)
+    .map((answer) => answer.spoken)
+}
@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublicRequestUrl } from '@/lib/url'
+
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN
+
+// In test mode webhooks are signed and checked with a local token instead of
+// the real auth token, so simulators can sign their own requests. Ignored in
+// production.
+const TEST_MODE =
+  process.env.TWILIO_SIGNATURE_MODE === 'test' &&
+  process.env.NODE_ENV !== 'production'
+const TEST_AUTH_TOKEN =
+  process.env.TWILIO_TEST_AUTH_TOKEN || 'sosbridge-local-test-token'
+
+function getSigningToken(): string | undefined {
+  return TEST_MODE ? TEST_AUTH_TOKEN : TWILIO_AUTH_TOKEN
+}
+
+// Twilio's scheme: HMAC-SHA1 over the full URL followed by every POST
+// parameter (sorted by name) as name+value, base64 encoded
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>
+): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url)
+
+  return createHmac('sha1', authToken).update(data).digest('base64')
+}
+
+// Whether signTwilioRequest can be used
+export function canSignTwilioRequests(): boolean {
+  return TEST_MODE
+}
+
+// Sign a webhook request locally. Only available in test mode.
+export function signTwilioRequest(
+  url: string,
+  params: Record<string, string>
+): string {
+  if (!TEST_MODE) {
+    throw new Error('Local Twilio request signing requires test mode')
+  }
+  return computeTwilioSignature(TEST_AUTH_TOKEN, url, params)
+}
+
+function signaturesMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected)
+  const actualBuffer = Buffer.from(actual)
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  )
+}
+
+// Check a signature against the configured token. Used directly for the
+// media stream WebSocket handshake, which has no form body.
+export function isValidTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null | undefined
+): boolean {
+  const authToken = getSigningToken()
+
+  if (!authToken) {
+    console.error('[Twilio Signature] No auth token configured, rejecting')
+    return false
+  }
+  if (!signature) {
+    console.warn('[Twilio Signature] Unsigned request rejected:', url)
+    return false
+  }
+  if (
+    !signaturesMatch(computeTwilioSignature(authToken, url, params), signature)
+  ) {
+    console.warn('[Twilio Signature] Invalid signature rejected:', url)
+    return false
+  }
+  return true
+}
+
+export type TwilioWebhookResult =
+  | { valid: true; params: Record<string, string> }
+  | { valid: false; response: NextResponse }
+
+// Read a Twilio form POST and check its X-Twilio-Signature. The body can only
+// be read once, so the parsed parameters are handed back on success.
+export async function validateTwilioWebhook(
+  request: NextRequest
+): Promise<TwilioWebhookResult> {
+  const params: Record<string, string> = {}
+  const contentType = request.headers.get('content-type') || ''
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const formData = await request.formData()
+    formData.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value
+    })
+  }
+
+  const signature = request.headers.get('x-twilio-signature')
+  const url = getPublicRequestUrl(request)
+
+  if (isValidTwilioSignature(url, params, signature)) {
+    return { valid: true, params }
+  }
+
+  return {
+    valid: false,
+    response: new NextResponse('Forbidden', { status: 403 }),
+  }
+}
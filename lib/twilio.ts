@@ -0,0 +1,154 @@
+// TwiML builders and Twilio call status helpers. The REST API lives behind
+// the telephony provider in lib/telephony.
+
+export type CallMode = 'turn' | 'stream'
+
+// 'turn' plays a message then records a reply (<Play>/<Record>); 'stream'
+// keeps a bidirectional media stream open for the whole call
+export const CALL_MODE: CallMode =
+  process.env.CALL_MODE === 'stream' ? 'stream' : 'turn'
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// One <Play> per clip, in order
+function buildPlayVerbs(audioUrl: string | string[]): string {
+  return (Array.isArray(audioUrl) ? audioUrl : [audioUrl])
+    .map((url) => `<Play>${escapeXml(url)}</Play>`)
+    .join('\n  ')
+}
+
+function buildRecordVerb(callbackUrl: string, maxLength: number): string {
+  return `<Record 
+    action="${escapeXml(callbackUrl)}"
+    method="POST"
+    maxLength="${maxLength}"
+    playBeep="true"
+    trim="trim-silence"
+    timeout="3"
+  />`
+}
+
+// The call menu, announced once after the emergency message
+export interface MenuPrompt {
+  announcementUrl: string
+  actionUrl: string
+  // Spoken options in the dispatch language; keys only when absent
+  speech?: { language: string; hints: string[] } | null
+}
+
+// Waits a few seconds for a key or a spoken option after the announcement.
+// With no input Twilio moves on to the next verb.
+function buildGatherVerb(menu: MenuPrompt): string {
+  const input = menu.speech
+    ? `input="dtmf speech"
+    language="${escapeXml(menu.speech.language)}"
+    hints="${escapeXml(menu.speech.hints.join(', '))}"`
+    : 'input="dtmf"'
+  return `<Gather
+    ${input}
+    numDigits="1"
+    timeout="3"
+    action="${escapeXml(menu.actionUrl)}"
+    method="POST"
+    actionOnEmptyResult="false"
+  >
+    <Play>${escapeXml(menu.announcementUrl)}</Play>
+  </Gather>`
+}
+
+// TwiML that plays a message and then records the operator's reply. A key
+// pressed during the recording ends it and reaches the recording callback
+// as Digits, so the menu keeps working after its announcement.
+export function buildPlayAndRecordTwiml(
+  audioUrl: string | string[],
+  callbackUrl: string,
+  maxLength = 15,
+  menu?: MenuPrompt
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${buildPlayVerbs(audioUrl)}
+  ${menu ? buildGatherVerb(menu) : ''}
+  ${buildRecordVerb(callbackUrl, maxLength)}
+</Response>`
+}
+
+// TwiML that just records the operator's next reply
+export function buildRecordTwiml(callbackUrl: string, maxLength = 15): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${buildRecordVerb(callbackUrl, maxLength)}
+</Response>`
+}
+
+// TwiML that plays the intro and then hands the call to our media stream.
+// If the stream cannot connect or drops, Twilio carries on with <Record>,
+// falling back to the turn-based loop.
+export function buildPlayAndStreamTwiml(
+  audioUrl: string | string[],
+  streamUrl: string,
+  sessionId: string,
+  callbackUrl: string,
+  menu?: MenuPrompt
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${buildPlayVerbs(audioUrl)}
+  ${menu ? buildGatherVerb(menu) : ''}
+  <Connect>
+    <Stream url="${escapeXml(streamUrl)}">
+      <Parameter name="sessionId" value="${escapeXml(sessionId)}" />
+    </Stream>
+  </Connect>
+  ${buildRecordVerb(callbackUrl, 15)}
+</Response>`
+}
+
+// Twilio statuses a call never leaves; each is the reason it ended
+export type CallEndReason =
+  | 'completed'
+  | 'busy'
+  | 'failed'
+  | 'no-answer'
+  | 'canceled'
+
+const CALL_END_REASONS: string[] = [
+  'completed',
+  'busy',
+  'failed',
+  'no-answer',
+  'canceled',
+]
+
+export function isCallEndReason(
+  twilioStatus: string
+): twilioStatus is CallEndReason {
+  return CALL_END_REASONS.includes(twilioStatus)
+}
+
+// Map Twilio status to our app status
+export function toAppCallStatus(twilioStatus: string): string {
+  switch (twilioStatus) {
+    case 'initiated':
+      return 'dialing'
+    case 'queued':
+    case 'ringing':
+      return 'ringing'
+    case 'in-progress':
+      return 'active'
+    case 'completed':
+    case 'busy':
+    case 'failed':
+    case 'no-answer':
+    case 'canceled':
+      return 'ended'
+    default:
+      return twilioStatus
+  }
+}
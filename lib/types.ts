@@ -0,0 +1,14 @@
+import { TriageAnswers } from '@/lib/triage'
+
+export interface EmergencyData {
+  serviceNeeded: string
+  description: string
+  location: { latitude: number; longitude: number } | null
+  manualAddress: string | null
+  countryCode?: string | null
+  dialOverride?: string | null
+  // Tap answers to the service's triage questions
+  triage?: TriageAnswers | null
+  browserLanguage: string
+  timestamp: string
+}
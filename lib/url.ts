@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+
+// The public URL Twilio reaches us on (e.g. the ngrok URL). Webhook
+// signatures are computed against it, so set it in every deployment.
+const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL
+
+export const MEDIA_STREAM_PATH = '/api/twilio/media-stream'
+
+// Resolve the externally reachable origin for this request. Behind ngrok the
+// forwarded headers carry the public host that Twilio needs to call back on.
+export function getBaseUrl(request: NextRequest): string {
+  if (PUBLIC_BASE_URL) {
+    return PUBLIC_BASE_URL.replace(/\/$/, '')
+  }
+
+  const forwardedHost = request.headers.get('x-forwarded-host')
+  const forwardedProto = request.headers.get('x-forwarded-proto')
+
+  if (forwardedHost && forwardedProto) {
+    return `${forwardedProto}://${forwardedHost}`
+  }
+
+  return request.nextUrl.origin
+}
+
+// The full URL Twilio requested, as it appears in the signature
+export function getPublicRequestUrl(request: NextRequest): string {
+  return `${getBaseUrl(request)}${request.nextUrl.pathname}${
+    request.nextUrl.search
+  }`
+}
+
+// WebSocket URL Twilio <Stream> connects to for bidirectional call audio
+export function getMediaStreamUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/^http/, 'ws')}${MEDIA_STREAM_PATH}`
+}
@@ -46,6 +46,39 @@ export function checkRateLimit(
   }
 }
 
+// Proxies in front of the app that append to X-Forwarded-For (default 1)
+const TRUSTED_PROXY_COUNT = /^\d+$/.test(process.env.TRUSTED_PROXY_COUNT || '')
+  ? Number(process.env.TRUSTED_PROXY_COUNT)
+  : 1
+
+// Client IP for per-IP rate limiting (see RATE_LIMITING.md). Clients can put
+// anything in X-Forwarded-For, so only the entries our own proxies appended,
+// at the right-hand end, are trusted. The one the outermost proxy added is
+// the address that connected to it. With no proxy there is no trustworthy
+// address in the request, and every client shares one limit.
+export function getClientIp(headers: Headers): string {
+  if (TRUSTED_PROXY_COUNT === 0) return 'unknown'
+
+  const forwardedFor = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (forwardedFor.length === 0) return 'unknown'
+
+  return forwardedFor[Math.max(0, forwardedFor.length - TRUSTED_PROXY_COUNT)]
+}
+
+export function rateLimitHeaders(
+  limit: number,
+  result: { remaining: number; resetTime: number }
+): Record<string, string> {
+  return {
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': result.resetTime.toString(),
+    'X-RateLimit-Limit': limit.toString(),
+  }
+}
+
 // Clean up old rate limit entries periodically
 let cleanupInterval: NodeJS.Timeout | null = null
 
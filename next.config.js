@@ -4,6 +4,8 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   images: { unoptimized: true },
+  // Runs instrumentation.ts on server start
+  experimental: { instrumentationHook: true },
 };
 
 module.exports = nextConfig;
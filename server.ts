@@ -0,0 +1,44 @@
+// Custom server for media stream call mode (CALL_MODE=stream). Next route
+// handlers cannot accept WebSockets, so this serves the app and the Twilio
+// media stream socket on the same port. Run with `npm run dev:stream`.
+import { createServer } from 'http'
+import { parse } from 'url'
+import { loadEnvConfig } from '@next/env'
+import next from 'next'
+
+const dev = process.env.NODE_ENV !== 'production'
+const port = parseInt(process.env.PORT || '3000', 10)
+
+async function main() {
+  // Load .env files before any lib module reads process.env
+  loadEnvConfig(process.cwd(), dev)
+  const { createMediaStreamUpgradeHandler } = await import(
+    './lib/media-stream/server'
+  )
+
+  const app = next({ dev, port })
+  await app.prepare()
+
+  const handleRequest = app.getRequestHandler()
+  const handleNextUpgrade = app.getUpgradeHandler()
+  const handleMediaStreamUpgrade = createMediaStreamUpgradeHandler()
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res, parse(req.url || '/', true))
+  })
+
+  server.on('upgrade', (req, socket, head) => {
+    if (!handleMediaStreamUpgrade(req, socket, head)) {
+      handleNextUpgrade(req, socket, head)
+    }
+  })
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://localhost:${port} (media streams enabled)`)
+  })
+}
+
+main().catch((error) => {
+  console.error('[Server] Failed to start:', error)
+  process.exit(1)
+})